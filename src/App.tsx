@@ -1,5 +1,18 @@
+import { Navigate, Route, Routes } from "react-router";
+import LandingPage from "./pages/LandingPage";
 import InterviewRoom from "./pages/InterviewRoom";
+import ResultsPage from "./pages/ResultsPage";
+import HistoryPage from "./pages/HistoryPage";
 
 export default function App() {
-  return <InterviewRoom />;
+  return (
+    <Routes>
+      <Route path="/" element={<LandingPage />} />
+      <Route path="/interview/:sessionId" element={<InterviewRoom />} />
+      <Route path="/results/:sessionId" element={<ResultsPage />} />
+      <Route path="/history" element={<HistoryPage />} />
+      <Route path="/history/:sessionId" element={<HistoryPage />} />
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  );
 }
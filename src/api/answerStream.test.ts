@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MOCK_API_BASE_URL, setApiBaseUrl } from "./config";
+import {
+  AnswerStreamError,
+  ApiError,
+  createInterviewSession,
+  openAnswerStream,
+} from "./interviewApi";
+
+describe("openAnswerStream", () => {
+  beforeEach(() => {
+    setApiBaseUrl(MOCK_API_BASE_URL);
+  });
+
+  it("reports partial transcripts and resolves with the score", async () => {
+    const { session_id } = await createInterviewSession({ week_number: 4 });
+    const onPartialTranscript = vi.fn();
+
+    const stream = openAnswerStream(session_id, { onPartialTranscript });
+    stream.send(new Blob(["a".repeat(2048)], { type: "audio/webm" }));
+    stream.send(new Blob(["b".repeat(2048)], { type: "audio/webm" }));
+    const answer = await stream.finish();
+
+    expect(onPartialTranscript).toHaveBeenLastCalledWith(
+      "(Mock transcript, 4 KB so far…)"
+    );
+    expect(answer.score).toBeGreaterThanOrEqual(4);
+    expect(answer.is_complete).toBe(false);
+  });
+
+  it("surfaces backend errors as API errors", async () => {
+    const stream = openAnswerStream("missing");
+    stream.send(new Blob(["audio"], { type: "audio/webm" }));
+
+    await expect(stream.finish()).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it("fails with an AnswerStreamError when the socket cannot connect", async () => {
+    setApiBaseUrl("http://localhost:8000/api/v1");
+    vi.stubGlobal(
+      "WebSocket",
+      class extends EventTarget {
+        readyState = 0;
+        constructor() {
+          super();
+          setTimeout(() => this.dispatchEvent(new Event("error")));
+        }
+        send() {}
+        close() {}
+      }
+    );
+
+    const stream = openAnswerStream("abc123");
+
+    await expect(stream.finish()).rejects.toMatchObject({
+      name: "AnswerStreamError",
+      endSent: false,
+    });
+  });
+
+  it("says when the socket closed after the end of the answer went out", async () => {
+    setApiBaseUrl("http://localhost:8000/api/v1");
+    vi.stubGlobal(
+      "WebSocket",
+      class extends EventTarget {
+        readyState = 0;
+        constructor() {
+          super();
+          setTimeout(() => {
+            this.readyState = 1;
+            this.dispatchEvent(new Event("open"));
+          });
+        }
+        send(data: unknown) {
+          if (typeof data === "string") {
+            setTimeout(() => this.dispatchEvent(new Event("close")));
+          }
+        }
+        close() {}
+      }
+    );
+
+    const stream = openAnswerStream("abc123");
+    stream.send(new Blob(["audio"], { type: "audio/webm" }));
+    const error = await stream.finish().catch((error) => error);
+
+    expect(error).toBeInstanceOf(AnswerStreamError);
+    expect(error.endSent).toBe(true);
+  });
+
+  it("rejects with an abort error once aborted", async () => {
+    const stream = openAnswerStream("abc123");
+    const result = stream.finish();
+    stream.abort();
+
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  ResponseValidationError,
+  TimeoutError,
+  toApiError,
+  type RequestOptions,
+} from "./client";
+import { getApiBaseUrl, isMockApi } from "./config";
+import type { SubmitAnswerResponse } from "./interviewApi";
+import { answerStreamMessageSchema } from "./schemas";
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const SOCKET_OPEN = 1;
+
+/** The parts of `WebSocket` the stream relies on, so a stand-in can be used. */
+export type AnswerSocket = EventTarget &
+  Pick<WebSocket, "send" | "close" | "readyState">;
+
+/**
+ * Thrown when the socket fails or closes before the answer is scored. The
+ * recording is still complete on the client, so callers can fall back to
+ * uploading it with `submitAnswer`, but only once they know the server has not
+ * scored it already when `endSent` is set.
+ */
+export class AnswerStreamError extends Error {
+  /** Whether the `end` frame went out, so the server may have the answer. */
+  readonly endSent: boolean;
+
+  constructor(message: string, endSent = false) {
+    super(message);
+    this.name = "AnswerStreamError";
+    this.endSent = endSent;
+  }
+}
+
+export interface AnswerStream {
+  /** Sends a recorded chunk, queueing it until the socket has opened. */
+  send: (chunk: Blob) => void;
+  /** Marks the answer as complete and resolves with its score. */
+  finish: (options?: RequestOptions) => Promise<SubmitAnswerResponse>;
+  /** Drops the answer, e.g. when it is re-recorded. */
+  abort: () => void;
+}
+
+export interface AnswerStreamOptions {
+  onPartialTranscript?: (transcript: string) => void;
+}
+
+function toWebSocketUrl(baseUrl: string): string {
+  return baseUrl.replace(/^http(s?):/, "ws$1:");
+}
+
+/**
+ * Streams an answer to the backend while it is being recorded.
+ *
+ * Protocol: binary frames carry `MediaRecorder` chunks in order, followed by a
+ * `{"type":"end"}` text frame. The server replies with JSON messages matching
+ * `answerStreamMessageSchema`.
+ */
+export function openAnswerStream(
+  sessionId: string,
+  { onPartialTranscript }: AnswerStreamOptions = {}
+): AnswerStream {
+  const baseUrl = getApiBaseUrl();
+  const path = `/interview/session/${sessionId}/audio/stream/`;
+  const pending: (Blob | string)[] = [];
+  let socket: AnswerSocket | null = null;
+  let settled = false;
+  let endSent = false;
+
+  let resolveResult: (answer: SubmitAnswerResponse) => void = () => {};
+  let rejectResult: (error: unknown) => void = () => {};
+  const result = new Promise<SubmitAnswerResponse>((resolve, reject) => {
+    resolveResult = resolve;
+    rejectResult = reject;
+  });
+  // Nobody awaits the result of an answer that is aborted before `finish`.
+  result.catch(() => {});
+
+  const settle = (
+    outcome: { answer: SubmitAnswerResponse } | { error: unknown }
+  ) => {
+    if (settled) return;
+    settled = true;
+    pending.length = 0;
+    socket?.close();
+    if ("answer" in outcome) {
+      resolveResult(outcome.answer);
+    } else {
+      rejectResult(outcome.error);
+    }
+  };
+  const fail = (error: unknown) => settle({ error });
+
+  const handleMessage = (data: unknown) => {
+    let parsed;
+    try {
+      parsed = answerStreamMessageSchema.safeParse(JSON.parse(String(data)));
+    } catch {
+      fail(new AnswerStreamError("Answer stream sent invalid JSON", endSent));
+      return;
+    }
+    if (!parsed.success) {
+      fail(new ResponseValidationError(path, parsed.error));
+      return;
+    }
+
+    const message = parsed.data;
+    switch (message.type) {
+      case "partial":
+        onPartialTranscript?.(message.transcript);
+        break;
+      case "result":
+        settle({ answer: message.answer });
+        break;
+      case "error":
+        fail(toApiError(message.status, message.detail));
+        break;
+    }
+  };
+
+  const write = (target: AnswerSocket, data: Blob | string) => {
+    target.send(data);
+    // Chunks are binary; the only text frame is the end marker.
+    if (typeof data === "string") endSent = true;
+  };
+
+  const send = (data: Blob | string) => {
+    if (settled) return;
+    if (socket?.readyState === SOCKET_OPEN) {
+      write(socket, data);
+    } else {
+      pending.push(data);
+    }
+  };
+
+  const connect = async () => {
+    const url = `${toWebSocketUrl(baseUrl)}${path}`;
+    // Loaded on demand so the mock stays out of the main bundle.
+    const opened: AnswerSocket = isMockApi(baseUrl)
+      ? new (await import("./mockBackend")).MockAnswerSocket(url)
+      : new WebSocket(url);
+    if (settled) {
+      opened.close();
+      return;
+    }
+    socket = opened;
+
+    opened.addEventListener("open", () => {
+      pending.splice(0).forEach((data) => write(opened, data));
+    });
+    opened.addEventListener("message", (event) =>
+      handleMessage((event as MessageEvent).data)
+    );
+    opened.addEventListener("error", () =>
+      fail(new AnswerStreamError("Answer stream connection failed", endSent))
+    );
+    opened.addEventListener("close", () =>
+      fail(
+        new AnswerStreamError("Answer stream closed before scoring", endSent)
+      )
+    );
+  };
+
+  connect().catch((error) => {
+    fail(
+      new AnswerStreamError(
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  });
+
+  return {
+    send,
+    finish: ({ signal, timeoutMs = DEFAULT_TIMEOUT_MS } = {}) => {
+      send(JSON.stringify({ type: "end" }));
+
+      const timeout = setTimeout(
+        () => fail(new TimeoutError(timeoutMs)),
+        timeoutMs
+      );
+      const onAbort = () =>
+        fail(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      return result.finally(() => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+      });
+    },
+    abort: () => fail(new DOMException("Aborted", "AbortError")),
+  };
+}
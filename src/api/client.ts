@@ -0,0 +1,283 @@
+import { z } from "zod";
+import { getApiBaseUrl, isMockApi } from "./config";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly detail: string;
+
+  constructor(status: number, detail: string) {
+    super(detail);
+    this.name = "ApiError";
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+export class ConcurrencyLimitError extends ApiError {
+  constructor(status: number, detail: string) {
+    super(status, detail);
+    this.name = "ConcurrencyLimitError";
+  }
+}
+
+export class NetworkError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a 2xx payload does not match the schema the client expects.
+ * Indicates a frontend/backend contract mismatch rather than a user error.
+ */
+export class ResponseValidationError extends Error {
+  readonly path: string;
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(path: string, error: z.ZodError) {
+    super(`Invalid response from ${path}:\n${z.prettifyError(error)}`);
+    this.name = "ResponseValidationError";
+    this.path = path;
+    this.issues = error.issues;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+};
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /** Reports how much of a `body` upload has been sent. */
+  onUploadProgress?: (progress: UploadProgress) => void;
+};
+
+type RequestConfig<T> = RequestOptions & {
+  method?: "GET" | "POST";
+  json?: unknown;
+  body?: FormData;
+  errorMessage: string;
+  schema?: z.ZodType<T>;
+};
+
+export function toApiError(status: number, detail: string): ApiError {
+  if (detail.toLowerCase().includes("concurrency limit")) {
+    return new ConcurrencyLimitError(status, detail);
+  }
+  return new ApiError(status, detail);
+}
+
+/** Whether `error` is transient, so the same request may succeed later. */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  return (
+    error instanceof ApiError && (error.status >= 500 || error.status === 429)
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * A `fetch` stand-in built on XHR, which unlike `fetch` reports upload
+ * progress. Only what `send` needs is supported.
+ */
+function fetchWithUploadProgress(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: UploadProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const signal = init.signal;
+    const onAbort = () => xhr.abort();
+
+    xhr.open(init.method ?? "GET", url);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress({ loaded: event.loaded, total: event.total });
+      }
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      const nullBody = xhr.status === 204 || xhr.status === 304;
+      resolve(
+        new Response(nullBody ? null : xhr.responseText, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+        })
+      );
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new TypeError("Network request failed"));
+    };
+    xhr.onabort = () =>
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(init.body as XMLHttpRequestBodyInit);
+  });
+}
+
+/** Parses a response body, or returns undefined when it is not JSON. */
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+function detailOf(data: unknown): unknown {
+  return data && typeof data === "object" && "detail" in data
+    ? data.detail
+    : undefined;
+}
+
+async function send<T>(path: string, config: RequestConfig<T>): Promise<T> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(config.signal?.reason);
+  if (config.signal?.aborted) {
+    onAbort();
+  } else {
+    config.signal?.addEventListener("abort", onAbort, { once: true });
+  }
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const baseUrl = getApiBaseUrl();
+  let res: Response;
+  let body: string;
+  try {
+    // Loaded on demand so the mock stays out of the main bundle.
+    const { onUploadProgress } = config;
+    const request = isMockApi(baseUrl)
+      ? (await import("./mockBackend")).mockFetch
+      : onUploadProgress && config.body
+      ? (url: string, init: RequestInit) =>
+          fetchWithUploadProgress(url, init, onUploadProgress)
+      : fetch;
+    res = await request(`${baseUrl}${path}`, {
+      method: config.method ?? "GET",
+      headers:
+        config.json !== undefined
+          ? { "Content-Type": "application/json" }
+          : undefined,
+      body:
+        config.json !== undefined ? JSON.stringify(config.json) : config.body,
+      signal: controller.signal,
+    });
+    // Still under the timeout: a server can send headers and stall the body.
+    body = await res.text();
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    if (isAbortError(error) || config.signal?.aborted) throw error;
+    throw new NetworkError(
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  } finally {
+    clearTimeout(timeout);
+    config.signal?.removeEventListener("abort", onAbort);
+  }
+
+  const data = parseJson(body);
+
+  if (!res.ok) {
+    const detail = data === undefined ? res.statusText : detailOf(data);
+    throw toApiError(
+      res.status,
+      (typeof detail === "string" && detail) ||
+        `${config.errorMessage}: ${res.statusText}`
+    );
+  }
+
+  if (data === undefined) {
+    throw new ApiError(res.status, `${config.errorMessage}: invalid JSON`);
+  }
+
+  const detail = detailOf(data);
+  if (typeof detail === "string") {
+    throw toApiError(res.status, detail);
+  }
+
+  if (!config.schema) {
+    return data as T;
+  }
+
+  const parsed = config.schema.safeParse(data);
+  if (!parsed.success) {
+    throw new ResponseValidationError(path, parsed.error);
+  }
+  return parsed.data;
+}
+
+/**
+ * Performs a request against the configured API base URL. Non-2xx responses
+ * and 2xx responses carrying a `detail` message are surfaced as `ApiError`s.
+ * When a `schema` is given the payload is validated and transformed by it.
+ * `retries` is only honoured for GET requests, with exponential backoff.
+ */
+export async function apiRequest<T = unknown>(
+  path: string,
+  config: RequestConfig<T>
+): Promise<T> {
+  const retries = (config.method ?? "GET") === "GET" ? config.retries ?? 0 : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send<T>(path, config);
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      await sleep(DEFAULT_RETRY_DELAY_MS * 2 ** attempt, config.signal);
+    }
+  }
+}
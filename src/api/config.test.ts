@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MOCK_API_BASE_URL,
+  applyApiQueryParam,
+  getApiBaseUrl,
+  setApiBaseUrl,
+} from "./config";
+
+describe("API base URL", () => {
+  beforeEach(() => {
+    setApiBaseUrl(null);
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("remembers a ?api= override and removes it from the URL", () => {
+    window.history.replaceState(null, "", "/?api=mock&week=2");
+
+    applyApiQueryParam();
+
+    expect(getApiBaseUrl()).toBe(MOCK_API_BASE_URL);
+    expect(window.location.search).toBe("?week=2");
+  });
+
+  it("ignores an invalid ?api= value", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    window.history.replaceState(null, "", "/?api=nonsense");
+
+    applyApiQueryParam();
+
+    expect(getApiBaseUrl()).not.toBe("nonsense");
+    expect(warn).toHaveBeenCalled();
+    expect(window.location.search).toBe("");
+  });
+
+  it("reads the base URL without touching the URL or storage", () => {
+    window.history.replaceState(null, "", "/?api=mock");
+    const replaceState = vi.spyOn(window.history, "replaceState");
+    const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+    getApiBaseUrl();
+
+    expect(replaceState).not.toHaveBeenCalled();
+    expect(setItem).not.toHaveBeenCalled();
+    expect(window.location.search).toBe("?api=mock");
+  });
+});
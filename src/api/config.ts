@@ -0,0 +1,200 @@
+import {
+  AUDIO_COMPRESSIONS,
+  type AudioCompression,
+} from "../utils/audioFormat";
+import { getQueryParam, setQueryParam } from "../utils/queryParams";
+
+export type ApiProfile = {
+  id: string;
+  label: string;
+  baseUrl: string;
+};
+
+const API_QUERY_PARAM = "api";
+const API_STORAGE_KEY = "apiBaseUrl";
+const STREAM_QUERY_PARAM = "stream";
+const STREAM_STORAGE_KEY = "answerStreaming";
+const COMPRESSION_QUERY_PARAM = "compress";
+const COMPRESSION_STORAGE_KEY = "audioCompression";
+
+/** Served in the browser by `mockBackend.ts`; never reaches the network. */
+export const MOCK_API_BASE_URL = "mock://backend/api/v1";
+
+const DEFAULT_BASE_URL =
+  import.meta.env.VITE_USE_MOCK_API === "true"
+    ? MOCK_API_BASE_URL
+    : import.meta.env.VITE_API_BASE_URL ||
+      "https://virtual-reviewer-backend.onrender.com/api/v1";
+
+export const API_PROFILES: ApiProfile[] = [
+  { id: "default", label: "Default", baseUrl: DEFAULT_BASE_URL },
+  ...(import.meta.env.VITE_API_STAGING_URL
+    ? [
+        {
+          id: "staging",
+          label: "Staging",
+          baseUrl: import.meta.env.VITE_API_STAGING_URL,
+        },
+      ]
+    : []),
+  {
+    id: "local",
+    label: "Local",
+    baseUrl:
+      import.meta.env.VITE_API_LOCAL_URL || "http://localhost:8000/api/v1",
+  },
+  { id: "mock", label: "Mock (offline)", baseUrl: MOCK_API_BASE_URL },
+];
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Accepts either a profile id ("local", "staging") or a full base URL and
+ * returns the base URL it refers to, or null when it is neither.
+ */
+export function resolveApiOverride(value: string): string | null {
+  const profile = API_PROFILES.find((p) => p.id === value);
+  if (profile) return profile.baseUrl;
+
+  try {
+    const url = new URL(value);
+    if (url.protocol === "http:" || url.protocol === "https:") {
+      return normalizeBaseUrl(url.toString());
+    }
+  } catch {
+    // Not a URL either.
+  }
+  return null;
+}
+
+function readStoredOverride(): string | null {
+  try {
+    return localStorage.getItem(API_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setApiBaseUrl(url: string | null): void {
+  try {
+    if (url === null) {
+      localStorage.removeItem(API_STORAGE_KEY);
+    } else {
+      localStorage.setItem(API_STORAGE_KEY, normalizeBaseUrl(url));
+    }
+  } catch (error) {
+    console.error("Failed to persist API base URL:", error);
+  }
+}
+
+/**
+ * Moves a `?api=` override (a profile id or base URL) into localStorage and
+ * removes it from the URL. Called once at startup, before the first request.
+ */
+export function applyApiQueryParam(): void {
+  const queryValue = getQueryParam(API_QUERY_PARAM);
+  if (!queryValue) return;
+
+  const resolved = resolveApiOverride(queryValue);
+  if (resolved) {
+    setApiBaseUrl(resolved === DEFAULT_BASE_URL ? null : resolved);
+  } else {
+    console.warn(`Ignoring invalid ?${API_QUERY_PARAM}= value:`, queryValue);
+  }
+  setQueryParam(API_QUERY_PARAM, null);
+}
+
+/**
+ * Resolution order: stored override (see `applyApiQueryParam`), then the Vite
+ * env default.
+ */
+export function getApiBaseUrl(): string {
+  return readStoredOverride() || normalizeBaseUrl(DEFAULT_BASE_URL);
+}
+
+export function getActiveApiProfile(): ApiProfile | null {
+  const baseUrl = getApiBaseUrl();
+  return (
+    API_PROFILES.find((p) => normalizeBaseUrl(p.baseUrl) === baseUrl) ?? null
+  );
+}
+
+export function isMockApi(baseUrl = getApiBaseUrl()): boolean {
+  return baseUrl === MOCK_API_BASE_URL;
+}
+
+/**
+ * Moves `?param=` into localStorage, removing it from the URL, and returns the
+ * remembered value. `parse` maps the query value to what is stored, or null to
+ * ignore it.
+ */
+function readRememberedChoice(
+  param: string,
+  storageKey: string,
+  parse: (queryValue: string) => string | null
+): string | null {
+  const queryValue = getQueryParam(param);
+  if (queryValue !== null) {
+    const value = parse(queryValue);
+    if (value === null) {
+      console.warn(`Ignoring invalid ?${param}= value:`, queryValue);
+    } else {
+      try {
+        localStorage.setItem(storageKey, value);
+      } catch (error) {
+        console.error(`Failed to persist ?${param}= choice:`, error);
+      }
+    }
+    setQueryParam(param, null);
+  }
+
+  try {
+    return localStorage.getItem(storageKey);
+  } catch {
+    // Storage unavailable; use the build default.
+    return null;
+  }
+}
+
+/**
+ * Whether answers are streamed over a WebSocket while they are recorded
+ * instead of uploaded once finished. `?stream=1` or `?stream=0` is remembered
+ * in this browser; otherwise `VITE_STREAM_ANSWERS` decides.
+ */
+export function isAnswerStreamingEnabled(): boolean {
+  const stored = readRememberedChoice(
+    STREAM_QUERY_PARAM,
+    STREAM_STORAGE_KEY,
+    (value) => String(value === "1" || value === "true")
+  );
+  return (stored ?? import.meta.env.VITE_STREAM_ANSWERS) === "true";
+}
+
+const isAudioCompression = (value?: string): value is AudioCompression =>
+  (AUDIO_COMPRESSIONS as readonly (string | undefined)[]).includes(value);
+
+/**
+ * How recorded answers are compressed before upload. `?compress=opus|wav|none`
+ * is remembered in this browser; otherwise `VITE_AUDIO_COMPRESSION` decides.
+ */
+export function getAudioCompression(): AudioCompression {
+  const stored = readRememberedChoice(
+    COMPRESSION_QUERY_PARAM,
+    COMPRESSION_STORAGE_KEY,
+    (value) => (isAudioCompression(value) ? value : null)
+  );
+  const choice = stored ?? import.meta.env.VITE_AUDIO_COMPRESSION;
+  return isAudioCompression(choice) ? choice : "none";
+}
+
+export function getApiOrigin(): string {
+  // Non-http URLs have an opaque "null" origin.
+  if (isMockApi()) return MOCK_API_BASE_URL;
+  try {
+    return new URL(getApiBaseUrl()).origin;
+  } catch {
+    return getApiBaseUrl();
+  }
+}
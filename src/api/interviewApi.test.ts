@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getApiBaseUrl } from "./config";
+import {
+  ApiError,
+  ConcurrencyLimitError,
+  NetworkError,
+  ResponseValidationError,
+  TimeoutError,
+  createAvatarSession,
+  createInterviewSession,
+  getQuestion,
+  stopAvatarSession,
+  submitAnswer,
+} from "./interviewApi";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function respond(body: unknown, status = 200) {
+  fetchMock.mockResolvedValueOnce(
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    })
+  );
+}
+
+const session = {
+  session_id: "abc123",
+  week: { week: 4, title: "Closures", concepts: ["Scope", { title: "IIFE" }] },
+  total_questions: 5,
+};
+
+const avatarSession = {
+  session_token: "token",
+  session_id: "avatar-1",
+  livekit_url: "wss://livekit.example",
+  livekit_token: "jwt",
+  room_name: "room",
+};
+
+describe("interviewApi", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  it("posts JSON and normalizes the session payload", async () => {
+    respond(session);
+
+    const result = await createInterviewSession({ week_number: 4 });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${getApiBaseUrl()}/interview/session/create/`,
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ week_number: 4 }),
+      })
+    );
+    expect(result.session_id).toBe("abc123");
+    expect(result.week.description).toBe("");
+    expect(result.week.concepts.map((c) => c.name)).toEqual(["Scope", "IIFE"]);
+  });
+
+  it("uploads the answer as multipart form data", async () => {
+    respond({
+      score: 7,
+      feedback: { score: 7 },
+      question_index: 1,
+      is_complete: false,
+    });
+
+    const audio = new Blob(["audio"], { type: "audio/mp4" });
+    const result = await submitAnswer("abc123", audio);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/interview\/session\/abc123\/audio\/$/);
+    expect(init?.body).toBeInstanceOf(FormData);
+    const upload = (init?.body as FormData).get("audio");
+    expect(upload).toBeInstanceOf(File);
+    expect((upload as File).name).toBe("answer.m4a");
+    expect(result.next_question).toBeNull();
+    expect(result.feedback.missed_points).toEqual([]);
+  });
+
+  it("reports upload progress through XHR when asked to", async () => {
+    const onUploadProgress = vi.fn();
+    vi.stubGlobal(
+      "XMLHttpRequest",
+      class {
+        upload: { onprogress?: (event: object) => void } = {};
+        onload?: () => void;
+        status = 200;
+        statusText = "OK";
+        responseText = JSON.stringify({
+          score: 7,
+          feedback: { score: 7 },
+          question_index: 1,
+          is_complete: false,
+        });
+        open() {}
+        send() {
+          this.upload.onprogress?.({
+            lengthComputable: true,
+            loaded: 5,
+            total: 10,
+          });
+          this.onload?.();
+        }
+      }
+    );
+
+    const result = await submitAnswer("abc123", new Blob(["audio"]), {
+      onUploadProgress,
+    });
+
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 5, total: 10 });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.score).toBe(7);
+  });
+
+  it("surfaces the detail of an error response", async () => {
+    respond({ detail: "Week 99 does not exist" }, 404);
+
+    const error = await createInterviewSession({ week_number: 99 }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).not.toBeInstanceOf(ConcurrencyLimitError);
+    expect(error.status).toBe(404);
+    expect(error.message).toBe("Week 99 does not exist");
+  });
+
+  it("treats a detail in a successful response as an error", async () => {
+    respond({ detail: "Session expired" });
+
+    await expect(getQuestion("abc123", 0)).rejects.toMatchObject({
+      name: "ApiError",
+      status: 200,
+      detail: "Session expired",
+    });
+  });
+
+  it("detects the concurrency limit", async () => {
+    respond({ detail: "Concurrency limit reached for avatars" }, 429);
+
+    await expect(createAvatarSession()).rejects.toBeInstanceOf(
+      ConcurrencyLimitError
+    );
+  });
+
+  it("rejects a session without a session_id", async () => {
+    respond({ ...session, session_id: "" });
+
+    const error = await createInterviewSession({ week_number: 4 }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.message).toContain("Missing session_id in response");
+  });
+
+  it("rejects an avatar session without LiveKit details", async () => {
+    respond({ ...avatarSession, livekit_url: "", livekit_token: undefined });
+
+    const error = await createAvatarSession().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.issues.map((i: { path: string[] }) => i.path[0])).toEqual([
+      "livekit_url",
+      "livekit_token",
+    ]);
+  });
+
+  it("returns a complete avatar session", async () => {
+    respond(avatarSession);
+
+    await expect(createAvatarSession()).resolves.toMatchObject(avatarSession);
+  });
+
+  it("validates the avatar stop acknowledgement", async () => {
+    respond({ success: true, stopped_at: "2024-01-01T00:00:00Z" });
+    await expect(
+      stopAvatarSession({ session_token: "token" })
+    ).resolves.toEqual({ success: true, stopped_at: "2024-01-01T00:00:00Z" });
+
+    respond({ success: "yes" });
+    await expect(
+      stopAvatarSession({ session_token: "token" })
+    ).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
+  it("wraps connection failures in a NetworkError", async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    await expect(
+      createInterviewSession({ week_number: 4 })
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("times out a response whose body never arrives", async () => {
+    // Headers arrive, then the body stalls until the request is aborted.
+    fetchMock.mockImplementationOnce(
+      async (_url, init) =>
+        new Response(
+          new ReadableStream({
+            start(body) {
+              init?.signal?.addEventListener("abort", () =>
+                body.error(init.signal?.reason)
+              );
+            },
+          })
+        )
+    );
+
+    await expect(
+      createInterviewSession({ week_number: 4 }, { timeoutMs: 50 })
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
@@ -1,14 +1,40 @@
-const BASE_URL = "https://virtual-reviewer-backend.onrender.com/api/v1";
-
-export type AvatarSessionResponse = {
-  session_token: string;
-  session_id: string;
-  livekit_url: string;
-  livekit_token: string;
-  room_name: string;
-  ws_url?: string;
-  max_session_duration?: number;
-};
+import type { z } from "zod";
+import { apiRequest, type RequestOptions } from "./client";
+import {
+  avatarSessionResponseSchema,
+  avatarSpeakResponseSchema,
+  completeSessionResponseSchema,
+  interviewSessionResponseSchema,
+  questionResponseSchema,
+  sessionLogsResponseSchema,
+  sessionResultsResponseSchema,
+  stopAvatarSessionResponseSchema,
+  submitAnswerResponseSchema,
+  ttsResponseSchema,
+} from "./schemas";
+import { getAudioFileExtension } from "../utils/audioFormat";
+
+export {
+  ApiError,
+  ConcurrencyLimitError,
+  NetworkError,
+  ResponseValidationError,
+  TimeoutError,
+  isAbortError,
+  isRetryable,
+  type RequestOptions,
+  type UploadProgress,
+} from "./client";
+export type { Concept, SessionLogEntry, WordTiming } from "./schemas";
+export {
+  AnswerStreamError,
+  openAnswerStream,
+  type AnswerStream,
+} from "./answerStream";
+
+export type AvatarSessionResponse = z.output<typeof avatarSessionResponseSchema>;
+
+export type AvatarSpeakResponse = z.output<typeof avatarSpeakResponseSchema>;
 
 export type CreateAvatarSessionRequest = {
   avatar_id?: string;
@@ -21,273 +47,174 @@ export type CreateInterviewSessionRequest = {
   week_number: number;
 };
 
-export type InterviewSessionResponse = {
-  session_id: string;
-  week: {
-    week: number;
-    title: string;
-    description: string;
-    concepts: (
-      | string
-      | {
-          id?: number;
-          name?: string;
-          title?: string;
-          description?: string;
-          order?: number;
-        }
-    )[];
-  };
-  total_questions: number;
-};
+export type InterviewSessionResponse = z.output<
+  typeof interviewSessionResponseSchema
+>;
 
-export type QuestionResponse = {
-  question_text: string;
-  question_index: number;
-};
+export type QuestionResponse = z.output<typeof questionResponseSchema>;
 
-export type TTSResponse = {
-  audio_url: string;
-  audio_base64?: string;
-};
+export type TTSResponse = z.output<typeof ttsResponseSchema>;
+
+export type SubmitAnswerResponse = z.output<typeof submitAnswerResponseSchema>;
+
+export type SessionResultsResponse = z.output<
+  typeof sessionResultsResponseSchema
+>;
+
+export type SessionLogsResponse = z.output<typeof sessionLogsResponseSchema>;
 
-export type SubmitAnswerResponse = {
-  transcript: string;
-  score: number;
-  feedback: {
-    score: number;
-    missed_points: string[];
-    red_flags: string[];
-    summary: string;
+export type AvatarSpeakEvent = {
+  event_type: "avatar.speak_text";
+  data: {
+    text: string;
   };
-  current_question: string;
-  next_question: string | null;
-  question_index: number;
-  is_complete: boolean;
 };
 
-export type SessionResultsResponse = {
-  performance_score: number;
-  mentor_feedback: string;
-  time_elapsed_sec: number;
-  time_elapsed_formatted: string;
-  skill_breakdown?: {
-    [key: string]: number;
-  };
-  questions_answered: number;
-  average_score: number;
+export type StopAvatarSessionRequest = {
+  session_token?: string;
+  session_id?: string;
 };
 
+export type StopAvatarSessionResponse = z.output<
+  typeof stopAvatarSessionResponseSchema
+>;
+
 export async function createInterviewSession(
-  request: CreateInterviewSessionRequest
+  request: CreateInterviewSessionRequest,
+  options?: RequestOptions
 ): Promise<InterviewSessionResponse> {
-  const res = await fetch(`${BASE_URL}/interview/session/create/`, {
+  return apiRequest("/interview/session/create/", {
+    ...options,
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(request),
+    json: request,
+    errorMessage: "Failed to create interview session",
+    schema: interviewSessionResponseSchema,
   });
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ detail: res.statusText }));
-    throw new Error(
-      error.detail || `Failed to create interview session: ${res.statusText}`
-    );
-  }
-
-  const data = await res.json();
-
-  if (data.detail) {
-    throw new Error(data.detail);
-  }
-
-  if (!data.session_id) {
-    throw new Error("Missing session_id in response");
-  }
-
-  return data;
 }
 
 export async function submitAnswer(
   sessionId: string,
-  audioBlob: Blob
+  audioBlob: Blob,
+  options?: RequestOptions
 ): Promise<SubmitAnswerResponse> {
   const formData = new FormData();
-  formData.append("audio", audioBlob);
+  formData.append(
+    "audio",
+    audioBlob,
+    `answer.${getAudioFileExtension(audioBlob.type)}`
+  );
 
-  const res = await fetch(`${BASE_URL}/interview/session/${sessionId}/audio/`, {
+  return apiRequest(`/interview/session/${sessionId}/audio/`, {
+    timeoutMs: 120_000,
+    ...options,
     method: "POST",
     body: formData,
+    errorMessage: "Failed to submit answer",
+    schema: submitAnswerResponseSchema,
   });
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ detail: res.statusText }));
-    throw new Error(
-      error.detail || `Failed to submit answer: ${res.statusText}`
-    );
-  }
-
-  return res.json();
 }
 
-export async function getSessionLogs(sessionId: string) {
-  const res = await fetch(`${BASE_URL}/interview/session/${sessionId}/logs/`, {
-    method: "GET",
+export async function getSessionLogs(
+  sessionId: string,
+  options?: RequestOptions
+): Promise<SessionLogsResponse> {
+  return apiRequest(`/interview/session/${sessionId}/logs/`, {
+    retries: 2,
+    ...options,
+    errorMessage: "Failed to get session logs",
+    schema: sessionLogsResponseSchema,
   });
-  return res.json();
 }
 
 export async function createAvatarSession(
-  options?: CreateAvatarSessionRequest
+  avatarOptions?: CreateAvatarSessionRequest,
+  options?: RequestOptions
 ): Promise<AvatarSessionResponse> {
-  const res = await fetch(`${BASE_URL}/interview/avatar/session/create/`, {
+  return apiRequest("/interview/avatar/session/create/", {
+    ...options,
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(options || {}),
+    json: avatarOptions || {},
+    errorMessage: "Failed to create avatar session",
+    schema: avatarSessionResponseSchema,
   });
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ detail: res.statusText }));
-    const errorMessage =
-      error.detail || `Failed to create avatar session: ${res.statusText}`;
-
-    if (errorMessage.toLowerCase().includes("concurrency limit")) {
-      const concurrencyError = new Error(errorMessage);
-      (concurrencyError as any).isConcurrencyLimit = true;
-      throw concurrencyError;
-    }
-
-    throw new Error(errorMessage);
-  }
-
-  const data = await res.json();
-
-  if (data.detail) {
-    const errorMessage = data.detail;
-    if (errorMessage.toLowerCase().includes("concurrency limit")) {
-      const concurrencyError = new Error(errorMessage);
-      (concurrencyError as any).isConcurrencyLimit = true;
-      throw concurrencyError;
-    }
-    throw new Error(errorMessage);
-  }
-
-  if (!data.livekit_url || !data.livekit_token) {
-    throw new Error("Missing LiveKit connection details in response");
-  }
-
-  return data;
 }
 
-export async function avatarSpeak(sessionToken: string, text: string) {
-  const res = await fetch(
-    `${BASE_URL}/interview/avatar/${sessionToken}/speak/`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text }),
-    }
-  );
-  return res.json();
+export async function avatarSpeak(
+  sessionToken: string,
+  text: string,
+  options?: RequestOptions
+): Promise<AvatarSpeakResponse> {
+  return apiRequest(`/interview/avatar/${sessionToken}/speak/`, {
+    ...options,
+    method: "POST",
+    json: { text },
+    errorMessage: "Failed to send avatar speak request",
+    schema: avatarSpeakResponseSchema,
+  });
 }
 
-export type AvatarSpeakEvent = {
-  event_type: "avatar.speak_text";
-  data: {
-    text: string;
-  };
-};
-
-export type StopAvatarSessionRequest = {
-  session_token?: string;
-  session_id?: string;
-};
-
-export async function stopAvatarSession(request: StopAvatarSessionRequest) {
-  const res = await fetch(`${BASE_URL}/interview/avatar/session/stop/`, {
+export async function stopAvatarSession(
+  request: StopAvatarSessionRequest,
+  options?: RequestOptions
+): Promise<StopAvatarSessionResponse> {
+  return apiRequest("/interview/avatar/session/stop/", {
+    ...options,
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(request),
+    json: request,
+    errorMessage: "Failed to stop avatar session",
+    schema: stopAvatarSessionResponseSchema,
   });
-  if (!res.ok) {
-    throw new Error(`Failed to stop avatar session: ${res.statusText}`);
-  }
-  return res.json();
 }
 
 export async function getQuestion(
   sessionId: string,
-  questionIndex: number
+  questionIndex: number,
+  options?: RequestOptions
 ): Promise<QuestionResponse> {
-  const res = await fetch(
-    `${BASE_URL}/interview/session/${sessionId}/question/${questionIndex}/`,
+  return apiRequest(
+    `/interview/session/${sessionId}/question/${questionIndex}/`,
     {
-      method: "GET",
+      retries: 2,
+      ...options,
+      errorMessage: "Failed to get question",
+      schema: questionResponseSchema,
     }
   );
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ detail: res.statusText }));
-    throw new Error(
-      error.detail || `Failed to get question: ${res.statusText}`
-    );
-  }
-
-  return res.json();
 }
 
-export async function speakTTS(text: string): Promise<TTSResponse> {
-  const res = await fetch(`${BASE_URL}/interview/tts/speak/`, {
+export async function speakTTS(
+  text: string,
+  options?: RequestOptions
+): Promise<TTSResponse> {
+  return apiRequest("/interview/tts/speak/", {
+    ...options,
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ text }),
+    json: { text },
+    errorMessage: "Failed to generate TTS",
+    schema: ttsResponseSchema,
   });
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ detail: res.statusText }));
-    throw new Error(
-      error.detail || `Failed to generate TTS: ${res.statusText}`
-    );
-  }
-
-  return res.json();
 }
 
 export async function completeSession(
-  sessionId: string
+  sessionId: string,
+  options?: RequestOptions
 ): Promise<{ success: boolean }> {
-  const res = await fetch(
-    `${BASE_URL}/interview/session/${sessionId}/complete/`,
-    {
-      method: "POST",
-    }
-  );
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ detail: res.statusText }));
-    throw new Error(
-      error.detail || `Failed to complete session: ${res.statusText}`
-    );
-  }
-
-  return res.json();
+  return apiRequest(`/interview/session/${sessionId}/complete/`, {
+    ...options,
+    method: "POST",
+    errorMessage: "Failed to complete session",
+    schema: completeSessionResponseSchema,
+  });
 }
 
 export async function getSessionResults(
-  sessionId: string
+  sessionId: string,
+  options?: RequestOptions
 ): Promise<SessionResultsResponse> {
-  const res = await fetch(
-    `${BASE_URL}/interview/session/${sessionId}/results/`,
-    {
-      method: "GET",
-    }
-  );
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ detail: res.statusText }));
-    throw new Error(
-      error.detail || `Failed to get session results: ${res.statusText}`
-    );
-  }
-
-  return res.json();
+  return apiRequest(`/interview/session/${sessionId}/results/`, {
+    retries: 2,
+    ...options,
+    errorMessage: "Failed to get session results",
+    schema: sessionResultsResponseSchema,
+  });
 }
@@ -0,0 +1,514 @@
+import { estimateWordTimings } from "../utils/captions";
+import { MOCK_API_BASE_URL } from "./config";
+
+/**
+ * In-browser stand-in for the interview backend, selected with `?api=mock` or
+ * `VITE_USE_MOCK_API=true`. It answers the same paths as the real API with
+ * scripted questions and scores derived only from the session and answer, so
+ * the same recording always gets the same feedback.
+ */
+
+type MockTopic = {
+  title: string;
+  description: string;
+  concepts: string[];
+  questions: { text: string; points: string[] }[];
+};
+
+const MOCK_TOPICS: MockTopic[] = [
+  {
+    title: "JavaScript Fundamentals",
+    description: "Scope, closures and the event loop.",
+    concepts: ["Closures", "Hoisting", "Event loop"],
+    questions: [
+      {
+        text: "What is a closure, and when have you used one?",
+        points: [
+          "captures variables from the enclosing scope",
+          "a concrete use case",
+        ],
+      },
+      {
+        text: "How does the event loop decide what runs next?",
+        points: ["call stack", "microtasks before macrotasks"],
+      },
+      {
+        text: "What is the difference between let, const and var?",
+        points: ["block versus function scope", "the temporal dead zone"],
+      },
+    ],
+  },
+  {
+    title: "React Basics",
+    description: "Components, state and effects.",
+    concepts: ["Components", "State", "Effects"],
+    questions: [
+      {
+        text: "Why should state in React be treated as immutable?",
+        points: ["change detection by reference", "predictable re-renders"],
+      },
+      {
+        text: "When does an effect run, and how do you clean it up?",
+        points: ["after commit", "the returned cleanup function"],
+      },
+      {
+        text: "How would you share state between two sibling components?",
+        points: ["lifting state up", "context for deep trees"],
+      },
+    ],
+  },
+  {
+    title: "HTTP and APIs",
+    description: "Requests, status codes and caching.",
+    concepts: ["Methods", "Status codes", "Caching"],
+    questions: [
+      {
+        text: "What makes an HTTP method idempotent?",
+        points: [
+          "repeating it has the same effect",
+          "examples such as PUT and DELETE",
+        ],
+      },
+      {
+        text: "How would you choose between a 400 and a 422 response?",
+        points: ["malformed versus semantically invalid input"],
+      },
+      {
+        text: "How do browsers decide whether to reuse a cached response?",
+        points: ["Cache-Control", "validation with ETag"],
+      },
+    ],
+  },
+];
+
+const MOCK_STORAGE_KEY = "mockBackendSessions";
+const MOCK_LATENCY_MS = 300;
+const SPEECH_SECONDS_PER_WORD = 0.35;
+const SAMPLE_RATE = 8000;
+
+type MockAnswer = {
+  questionIndex: number;
+  score: number;
+  transcript: string;
+  createdAt: string;
+};
+
+type MockSession = {
+  week: number;
+  createdAt: string;
+  completedAt: string | null;
+  answers: MockAnswer[];
+};
+
+type MockResponse = { status: number; body: unknown };
+
+type Route = (
+  match: RegExpMatchArray,
+  init: RequestInit
+) => MockResponse | Promise<MockResponse>;
+
+function loadSessions(): Record<string, MockSession> {
+  try {
+    return JSON.parse(localStorage.getItem(MOCK_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function saveSessions(sessions: Record<string, MockSession>): void {
+  try {
+    localStorage.setItem(MOCK_STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.error("Failed to persist mock sessions:", error);
+  }
+}
+
+function topicFor(week: number): MockTopic {
+  return MOCK_TOPICS[(week - 1) % MOCK_TOPICS.length];
+}
+
+/** FNV-1a, so scores stay stable across reloads and browsers. */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function ok(body: unknown): MockResponse {
+  return { status: 200, body };
+}
+
+function notFound(detail: string): MockResponse {
+  return { status: 404, body: { detail } };
+}
+
+function readJson(init: RequestInit): Record<string, unknown> {
+  try {
+    return typeof init.body === "string" ? JSON.parse(init.body) : {};
+  } catch {
+    return {};
+  }
+}
+
+function withSession(
+  sessionId: string,
+  handle: (
+    session: MockSession,
+    sessions: Record<string, MockSession>
+  ) => MockResponse
+): MockResponse {
+  const sessions = loadSessions();
+  const session = sessions[sessionId];
+  return session
+    ? handle(session, sessions)
+    : notFound(`Session ${sessionId} not found`);
+}
+
+/** Mono 8-bit PCM silence long enough to "speak" `text`. */
+function silentWav(durationSeconds: number): string {
+  const samples = Math.round(durationSeconds * SAMPLE_RATE);
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeString(36, "data");
+  view.setUint32(40, samples, true);
+  // Unsigned 8-bit PCM is silent at the midpoint.
+  new Uint8Array(buffer, 44).fill(128);
+
+  let binary = "";
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return `data:audio/wav;base64,${btoa(binary)}`;
+}
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
+
+function answerFeedback(topic: MockTopic, answer: MockAnswer) {
+  const points = topic.questions[answer.questionIndex]?.points ?? [];
+  const missed =
+    answer.score >= 8 ? [] : points.slice(answer.score >= 6 ? 1 : 0);
+  return {
+    score: answer.score,
+    missed_points: missed,
+    red_flags: answer.score <= 4 ? ["Answer was very brief"] : [],
+    summary:
+      missed.length === 0
+        ? "Covered the key points clearly."
+        : `Good start; also mention ${missed.join(" and ")}.`,
+  };
+}
+
+const ROUTES: [RegExp, Route][] = [
+  [
+    /^\/interview\/session\/create\/$/,
+    (_, init) => {
+      const week = Number(readJson(init).week_number) || 1;
+      const topic = topicFor(week);
+      const sessions = loadSessions();
+      const sessionId = `mock-${week}-${Object.keys(sessions).length + 1}`;
+      sessions[sessionId] = {
+        week,
+        createdAt: new Date().toISOString(),
+        completedAt: null,
+        answers: [],
+      };
+      saveSessions(sessions);
+      return ok({
+        session_id: sessionId,
+        week: {
+          week,
+          title: topic.title,
+          description: topic.description,
+          concepts: topic.concepts,
+        },
+        total_questions: topic.questions.length,
+      });
+    },
+  ],
+  [
+    /^\/interview\/session\/([^/]+)\/question\/(\d+)\/$/,
+    ([, sessionId, index]) =>
+      withSession(sessionId, (session) => {
+        const question = topicFor(session.week).questions[Number(index)];
+        return question
+          ? ok({ question_text: question.text, question_index: Number(index) })
+          : notFound(`Question ${index} not found`);
+      }),
+  ],
+  [
+    /^\/interview\/session\/([^/]+)\/audio\/$/,
+    async ([, sessionId], init) => {
+      const audio =
+        init.body instanceof FormData ? init.body.get("audio") : null;
+      const size = audio instanceof Blob ? audio.size : 0;
+
+      return withSession(sessionId, (session, sessions) => {
+        const topic = topicFor(session.week);
+        const questionIndex = session.answers.length;
+        if (questionIndex >= topic.questions.length) {
+          return { status: 400, body: { detail: "All questions answered" } };
+        }
+
+        const score =
+          size === 0
+            ? 0
+            : 4 + (hash(`${sessionId}:${questionIndex}:${size}`) % 6);
+        const answer: MockAnswer = {
+          questionIndex,
+          score,
+          transcript: `(Mock transcript of a ${Math.round(
+            size / 1024
+          )} KB recording.)`,
+          createdAt: new Date().toISOString(),
+        };
+        session.answers.push(answer);
+        saveSessions(sessions);
+
+        const next = topic.questions[questionIndex + 1];
+        return ok({
+          transcript: answer.transcript,
+          score,
+          feedback: answerFeedback(topic, answer),
+          current_question: topic.questions[questionIndex].text,
+          next_question: next?.text ?? null,
+          question_index: next ? questionIndex + 1 : questionIndex,
+          is_complete: !next,
+        });
+      });
+    },
+  ],
+  [
+    /^\/interview\/session\/([^/]+)\/logs\/$/,
+    ([, sessionId]) =>
+      withSession(sessionId, (session) => {
+        const topic = topicFor(session.week);
+        return ok(
+          session.answers.map((answer) => ({
+            question_index: answer.questionIndex,
+            question_text: topic.questions[answer.questionIndex]?.text,
+            transcript: answer.transcript,
+            score: answer.score,
+            feedback: answerFeedback(topic, answer),
+            created_at: answer.createdAt,
+          }))
+        );
+      }),
+  ],
+  [
+    /^\/interview\/session\/([^/]+)\/complete\/$/,
+    ([, sessionId]) =>
+      withSession(sessionId, (session, sessions) => {
+        session.completedAt ??= new Date().toISOString();
+        saveSessions(sessions);
+        return ok({ success: true });
+      }),
+  ],
+  [
+    /^\/interview\/session\/([^/]+)\/results\/$/,
+    ([, sessionId]) =>
+      withSession(sessionId, (session) => {
+        const topic = topicFor(session.week);
+        const scores = session.answers.map((answer) => answer.score);
+        const average = scores.length
+          ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+          : 0;
+        const elapsed = Math.round(
+          (Date.parse(session.completedAt ?? new Date().toISOString()) -
+            Date.parse(session.createdAt)) /
+            1000
+        );
+        return ok({
+          performance_score: Math.round(average * 10),
+          mentor_feedback:
+            average >= 7
+              ? `Solid grasp of ${topic.title}. Keep practising concise answers.`
+              : `Review the core ideas of ${topic.title} and try again.`,
+          time_elapsed_sec: elapsed,
+          time_elapsed_formatted: formatElapsed(elapsed),
+          skill_breakdown: Object.fromEntries(
+            topic.concepts.map((concept) => [
+              concept,
+              Math.max(
+                0,
+                Math.min(
+                  100,
+                  Math.round(average * 10 + (hash(concept) % 21) - 10)
+                )
+              ),
+            ])
+          ),
+          questions_answered: scores.length,
+          average_score: average,
+        });
+      }),
+  ],
+  [
+    /^\/interview\/tts\/speak\/$/,
+    (_, init) => {
+      const text = String(readJson(init).text ?? "");
+      const words = text.split(/\s+/).filter(Boolean).length;
+      const duration = Math.max(1, words * SPEECH_SECONDS_PER_WORD);
+      return ok({
+        audio_url: silentWav(duration),
+        word_timings: estimateWordTimings(text, duration),
+      });
+    },
+  ],
+  // There is no LiveKit room to join offline; the interview falls back to TTS.
+  [
+    /^\/interview\/avatar\/session\/create\/$/,
+    () => ({
+      status: 503,
+      body: { detail: "Avatar sessions are not available on the mock backend" },
+    }),
+  ],
+  [/^\/interview\/avatar\/session\/stop\/$/, () => ok({ success: true })],
+  [/^\/interview\/avatar\/[^/]+\/speak\/$/, () => ok({ success: true })],
+];
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Drop-in replacement for `fetch` for URLs under `MOCK_API_BASE_URL`. Each
+ * response is delayed slightly so loading states are still visible.
+ */
+export async function mockFetch(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  await delay(MOCK_LATENCY_MS, init.signal);
+
+  const path = url.slice(MOCK_API_BASE_URL.length);
+  const method = init.method ?? "GET";
+  let result: MockResponse = notFound(`No mock for ${method} ${path}`);
+  for (const [pattern, route] of ROUTES) {
+    const match = path.match(pattern);
+    if (match) {
+      result = await route(match, init);
+      break;
+    }
+  }
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** Forgets every mock session, e.g. between automated tests. */
+export function resetMockBackend(): void {
+  try {
+    localStorage.removeItem(MOCK_STORAGE_KEY);
+  } catch {
+    // Storage unavailable; nothing to clear.
+  }
+}
+
+const SOCKET_CONNECTING = 0;
+const SOCKET_OPEN = 1;
+const SOCKET_CLOSED = 3;
+
+/**
+ * Stand-in for the answer stream socket. It reports a partial transcript for
+ * every chunk and scores the finished answer exactly like an upload would.
+ */
+export class MockAnswerSocket extends EventTarget {
+  readyState = SOCKET_CONNECTING;
+  private readonly uploadPath: string;
+  private readonly chunks: Blob[] = [];
+
+  constructor(url: string) {
+    super();
+    this.uploadPath = url
+      .slice(MOCK_API_BASE_URL.length)
+      .replace(/stream\/$/, "");
+    setTimeout(() => {
+      if (this.readyState !== SOCKET_CONNECTING) return;
+      this.readyState = SOCKET_OPEN;
+      this.dispatchEvent(new Event("open"));
+    }, MOCK_LATENCY_MS);
+  }
+
+  send(data: Parameters<WebSocket["send"]>[0]): void {
+    if (data instanceof Blob) {
+      this.chunks.push(data);
+      const size = this.chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+      this.reply({
+        type: "partial",
+        transcript: `(Mock transcript, ${Math.round(size / 1024)} KB so far…)`,
+      });
+    } else if (typeof data === "string" && JSON.parse(data).type === "end") {
+      this.score();
+    }
+  }
+
+  close(): void {
+    if (this.readyState === SOCKET_CLOSED) return;
+    this.readyState = SOCKET_CLOSED;
+    this.dispatchEvent(new Event("close"));
+  }
+
+  private reply(message: unknown): void {
+    setTimeout(() => {
+      if (this.readyState !== SOCKET_OPEN) return;
+      this.dispatchEvent(
+        new MessageEvent("message", { data: JSON.stringify(message) })
+      );
+    });
+  }
+
+  private async score(): Promise<void> {
+    const body = new FormData();
+    body.append("audio", new Blob(this.chunks, { type: this.chunks[0]?.type }));
+    const response = await mockFetch(`${MOCK_API_BASE_URL}${this.uploadPath}`, {
+      method: "POST",
+      body,
+    });
+    const payload = await response.json();
+    this.reply(
+      response.ok
+        ? { type: "result", answer: payload }
+        : { type: "error", status: response.status, detail: payload.detail }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { z } from "zod";
+
+const rawConceptSchema = z.union([
+  z.string(),
+  z.object({
+    id: z.number().optional(),
+    name: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    order: z.number().optional(),
+  }),
+]);
+
+export type Concept = {
+  id: number;
+  name: string;
+  description: string;
+  order: number;
+};
+
+/**
+ * The backend sends concepts either as plain strings or as partial objects
+ * using `name` or `title`. Normalize both into a single shape ordered by
+ * `order`, so the UI never needs to inspect the raw payload.
+ */
+const conceptsSchema = z.array(rawConceptSchema).transform((concepts) =>
+  concepts
+    .map((concept, i): Concept => {
+      if (typeof concept === "string") {
+        return { id: i + 1, name: concept, description: "", order: i };
+      }
+      return {
+        id: concept.id ?? i + 1,
+        name: concept.name || concept.title || `Concept ${i + 1}`,
+        description: concept.description ?? "",
+        order: concept.order ?? i,
+      };
+    })
+    .sort((a, b) => a.order - b.order)
+);
+
+export const weekSchema = z.object({
+  week: z.number(),
+  title: z.string(),
+  description: z.string().default(""),
+  concepts: conceptsSchema.default([]),
+});
+
+export const interviewSessionResponseSchema = z.object({
+  session_id: z.string().min(1, "Missing session_id in response"),
+  week: weekSchema,
+  total_questions: z.number(),
+});
+
+export const questionResponseSchema = z.object({
+  question_text: z.string(),
+  question_index: z.number(),
+});
+
+export const wordTimingSchema = z.object({
+  word: z.string(),
+  /** Seconds from the start of the clip. */
+  start: z.number().min(0),
+  end: z.number().min(0),
+});
+
+export type WordTiming = z.output<typeof wordTimingSchema>;
+
+export const ttsResponseSchema = z
+  .object({
+    audio_url: z.string().default(""),
+    audio_base64: z.string().optional(),
+    // Optional; captions fall back to estimated timings without it.
+    word_timings: z.array(wordTimingSchema).optional().catch(undefined),
+  })
+  .refine((data) => data.audio_url || data.audio_base64, {
+    message: "TTS response contains neither audio_url nor audio_base64",
+  });
+
+export const answerFeedbackSchema = z.object({
+  score: z.number(),
+  missed_points: z.array(z.string()).default([]),
+  red_flags: z.array(z.string()).default([]),
+  summary: z.string().default(""),
+});
+
+export const submitAnswerResponseSchema = z.object({
+  transcript: z.string().default(""),
+  score: z.number(),
+  feedback: answerFeedbackSchema,
+  current_question: z.string().default(""),
+  next_question: z.string().nullable().default(null),
+  question_index: z.number(),
+  is_complete: z.boolean(),
+});
+
+/**
+ * Server messages on the answer stream socket: any number of `partial`
+ * transcripts, then exactly one `result` or `error`.
+ */
+export const answerStreamMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("partial"), transcript: z.string() }),
+  z.object({ type: z.literal("result"), answer: submitAnswerResponseSchema }),
+  z.object({
+    type: z.literal("error"),
+    status: z.number().default(500),
+    detail: z.string(),
+  }),
+]);
+
+export const completeSessionResponseSchema = z.object({
+  success: z.boolean(),
+});
+
+export const sessionResultsResponseSchema = z.object({
+  performance_score: z.number(),
+  mentor_feedback: z.string().default(""),
+  time_elapsed_sec: z.number(),
+  time_elapsed_formatted: z.string(),
+  skill_breakdown: z.record(z.string(), z.number()).optional(),
+  questions_answered: z.number(),
+  average_score: z.number(),
+});
+
+export const avatarSessionResponseSchema = z.object({
+  session_token: z.string(),
+  session_id: z.string(),
+  livekit_url: z.string().min(1, "Missing LiveKit connection details in response"),
+  livekit_token: z.string().min(1, "Missing LiveKit connection details in response"),
+  room_name: z.string(),
+  ws_url: z.string().optional(),
+  max_session_duration: z.number().optional(),
+});
+
+// The avatar endpoints only acknowledge the request, so anything beyond the
+// optional success flag is passed through untouched.
+export const avatarSpeakResponseSchema = z.looseObject({
+  success: z.boolean().optional(),
+});
+
+export const stopAvatarSessionResponseSchema = z.looseObject({
+  success: z.boolean().optional(),
+});
+
+const rawSessionLogEntrySchema = z.object({
+  question_index: z.number().optional(),
+  question_text: z.string().optional(),
+  question: z.string().optional(),
+  transcript: z.string().nullable().optional(),
+  score: z.number().nullable().optional(),
+  feedback: answerFeedbackSchema.partial().nullable().optional(),
+  created_at: z.string().optional(),
+  timestamp: z.string().optional(),
+});
+
+export type SessionLogEntry = {
+  questionIndex: number;
+  question: string;
+  transcript: string;
+  score: number;
+  feedback: z.output<typeof answerFeedbackSchema>;
+  createdAt: string | null;
+};
+
+/**
+ * The logs endpoint is not versioned, so accept either a bare array or an
+ * object wrapping it in `logs`, and normalize each entry to `SessionLogEntry`.
+ */
+export const sessionLogsResponseSchema = z
+  .union([
+    z.array(rawSessionLogEntrySchema),
+    z.object({ logs: z.array(rawSessionLogEntrySchema) }),
+  ])
+  .transform((data) => (Array.isArray(data) ? data : data.logs))
+  .transform((entries) =>
+    entries
+      .map((entry, i): SessionLogEntry => {
+        const score = entry.score ?? entry.feedback?.score ?? 0;
+        return {
+          questionIndex: entry.question_index ?? i,
+          question: entry.question_text ?? entry.question ?? "",
+          transcript: entry.transcript ?? "",
+          score,
+          feedback: {
+            score: entry.feedback?.score ?? score,
+            missed_points: entry.feedback?.missed_points ?? [],
+            red_flags: entry.feedback?.red_flags ?? [],
+            summary: entry.feedback?.summary ?? "",
+          },
+          createdAt: entry.created_at ?? entry.timestamp ?? null,
+        };
+      })
+      .sort((a, b) => a.questionIndex - b.questionIndex)
+  );
@@ -0,0 +1,97 @@
+import { Box, Button, Stack, Typography } from "@mui/material";
+import { Replay, Send } from "@mui/icons-material";
+import { formatTime } from "../utils/time";
+
+interface AnswerReviewProps {
+  clipUrl: string;
+  durationSeconds: number;
+  rerecordsLeft: number;
+  onSubmit: () => void;
+  onRerecord: () => void;
+}
+
+export default function AnswerReview({
+  clipUrl,
+  durationSeconds,
+  rerecordsLeft,
+  onSubmit,
+  onRerecord,
+}: AnswerReviewProps) {
+  return (
+    <Stack spacing={2} alignItems="center" sx={{ width: "100%" }}>
+      <Stack direction="row" spacing={1} alignItems="baseline">
+        <Typography
+          sx={{
+            color: "#d4d4d8",
+            fontSize: "0.875rem",
+            fontWeight: 500,
+            letterSpacing: "0.05em",
+          }}
+        >
+          Review Your Answer
+        </Typography>
+        <Typography
+          sx={{
+            color: "#71717a",
+            fontSize: "0.75rem",
+            fontFamily: "monospace",
+          }}
+        >
+          {formatTime(durationSeconds)}
+        </Typography>
+      </Stack>
+
+      <Box
+        component="audio"
+        controls
+        src={clipUrl}
+        sx={{ width: "100%", maxWidth: 280, colorScheme: "dark" }}
+      />
+
+      <Stack direction="row" spacing={2}>
+        <Button
+          onClick={onRerecord}
+          disabled={rerecordsLeft === 0}
+          startIcon={<Replay />}
+          variant="outlined"
+          sx={{
+            borderColor: "rgba(255, 255, 255, 0.2)",
+            color: "white",
+            fontWeight: 600,
+            borderRadius: 2,
+            textTransform: "none",
+            "&:hover": {
+              borderColor: "rgba(255, 255, 255, 0.4)",
+              bgcolor: "rgba(255, 255, 255, 0.05)",
+            },
+          }}
+        >
+          Re-record
+        </Button>
+        <Button
+          onClick={onSubmit}
+          startIcon={<Send />}
+          variant="contained"
+          sx={{
+            bgcolor: "#10b981",
+            color: "black",
+            fontWeight: 600,
+            borderRadius: 2,
+            textTransform: "none",
+            "&:hover": { bgcolor: "#059669" },
+          }}
+        >
+          Submit
+        </Button>
+      </Stack>
+
+      <Typography sx={{ color: "#52525b", fontSize: "0.75rem" }}>
+        {rerecordsLeft === 0
+          ? "No re-records left this session"
+          : `${rerecordsLeft} re-record${
+              rerecordsLeft === 1 ? "" : "s"
+            } left this session`}
+      </Typography>
+    </Stack>
+  );
+}
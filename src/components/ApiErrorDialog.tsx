@@ -0,0 +1,187 @@
+import { Box, Button, Card, Stack, Typography } from "@mui/material";
+import { Settings } from "@mui/icons-material";
+
+interface ApiErrorDialogProps {
+  open: boolean;
+  apiOrigin: string;
+  title?: string;
+  /** Replaces the default "server unreachable" explanation. */
+  message?: string;
+  /** Shown under the explanation, e.g. what happens to unsaved work. */
+  note?: string;
+  cancelLabel?: string;
+  onRetry: () => void;
+  onCancel: () => void;
+  onOpenSettings: () => void;
+}
+
+export default function ApiErrorDialog({
+  open,
+  apiOrigin,
+  title,
+  message,
+  note,
+  cancelLabel = "Cancel",
+  onRetry,
+  onCancel,
+  onOpenSettings,
+}: ApiErrorDialogProps) {
+  if (!open) return null;
+
+  return (
+    <Box
+      sx={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 100,
+        bgcolor: "rgba(0, 0, 0, 0.85)",
+        backdropFilter: "blur(8px)",
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        p: 3,
+      }}
+    >
+      <Card
+        sx={{
+          maxWidth: "32rem",
+          width: "100%",
+          bgcolor: "rgba(24, 24, 27, 0.95)",
+          backdropFilter: "blur(24px)",
+          border: "1px solid rgba(239, 68, 68, 0.3)",
+          borderRadius: 4,
+          p: 4,
+          textAlign: "center",
+        }}
+      >
+        <Box
+          sx={{
+            width: 64,
+            height: 64,
+            borderRadius: "50%",
+            bgcolor: "rgba(239, 68, 68, 0.2)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            mx: "auto",
+            mb: 3,
+          }}
+        >
+          <Box
+            sx={{
+              width: 32,
+              height: 32,
+              borderRadius: "50%",
+              border: "3px solid #ef4444",
+              borderTopColor: "transparent",
+              animation: "spin 1s linear infinite",
+            }}
+          />
+        </Box>
+        <Typography
+          variant="h5"
+          sx={{
+            fontWeight: 700,
+            color: "white",
+            mb: 2,
+          }}
+        >
+          {title ?? (message ? "Request Failed" : "API Not Reachable")}
+        </Typography>
+        <Typography
+          sx={{
+            color: "#a1a1aa",
+            fontSize: "0.875rem",
+            mb: note ? 2 : 4,
+            lineHeight: 1.75,
+          }}
+        >
+          {message ?? (
+            <>
+              Unable to connect to the server at{" "}
+              <Box
+                component="span"
+                sx={{
+                  fontFamily: "monospace",
+                  color: "#ef4444",
+                  bgcolor: "rgba(239, 68, 68, 0.1)",
+                  px: 1,
+                  py: 0.5,
+                  borderRadius: 1,
+                }}
+              >
+                {apiOrigin}
+              </Box>
+              . Please check if the backend server is running and try again.
+            </>
+          )}
+        </Typography>
+        {note && (
+          <Typography
+            sx={{
+              color: "#10b981",
+              fontSize: "0.75rem",
+              mb: 4,
+              lineHeight: 1.75,
+            }}
+          >
+            {note}
+          </Typography>
+        )}
+        <Stack direction="row" spacing={2} justifyContent="center">
+          <Button
+            onClick={onRetry}
+            variant="contained"
+            sx={{
+              bgcolor: "#10b981",
+              color: "black",
+              fontWeight: 600,
+              px: 3,
+              py: 1.5,
+              borderRadius: 2,
+              textTransform: "none",
+              "&:hover": {
+                bgcolor: "#059669",
+              },
+            }}
+          >
+            Try Again
+          </Button>
+          <Button
+            onClick={onCancel}
+            variant="outlined"
+            sx={{
+              borderColor: "rgba(255, 255, 255, 0.2)",
+              color: "white",
+              fontWeight: 600,
+              px: 3,
+              py: 1.5,
+              borderRadius: 2,
+              textTransform: "none",
+              "&:hover": {
+                borderColor: "rgba(255, 255, 255, 0.4)",
+                bgcolor: "rgba(255, 255, 255, 0.05)",
+              },
+            }}
+          >
+            {cancelLabel}
+          </Button>
+        </Stack>
+        <Button
+          onClick={onOpenSettings}
+          startIcon={<Settings sx={{ fontSize: 16 }} />}
+          sx={{
+            mt: 2,
+            color: "#71717a",
+            fontSize: "0.75rem",
+            textTransform: "none",
+            "&:hover": { color: "white" },
+          }}
+        >
+          Connection Settings
+        </Button>
+      </Card>
+    </Box>
+  );
+}
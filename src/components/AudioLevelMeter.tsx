@@ -0,0 +1,73 @@
+import { Box, Typography } from "@mui/material";
+import { WarningAmber } from "@mui/icons-material";
+import useAudioLevel from "../hooks/useAudioLevel";
+import type { LevelAnalyser } from "../utils/audioAnalysis";
+
+interface AudioLevelMeterProps {
+  analyser: LevelAnalyser | null;
+  bars?: number;
+  height?: number;
+}
+
+export default function AudioLevelMeter({
+  analyser,
+  bars = 12,
+  height = 48,
+}: AudioLevelMeterProps) {
+  const { levels, isSilent } = useAudioLevel(analyser, { bars });
+  const isActive = analyser !== null;
+
+  return (
+    <Box
+      sx={{ display: "flex", flexDirection: "column", alignItems: "center" }}
+    >
+      <Box
+        role="meter"
+        aria-label="Microphone input level"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round((levels[levels.length - 1] ?? 0) * 100)}
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          gap: 0.5,
+          height,
+          opacity: isActive ? 1 : 0.3,
+          transition: "opacity 0.5s",
+        }}
+      >
+        {levels.map((level, i) => (
+          <Box
+            key={i}
+            sx={{
+              width: 6,
+              height: `${Math.max(level * 100, 8)}%`,
+              minHeight: "4px",
+              bgcolor: isSilent ? "#f59e0b" : "#10b981",
+              borderRadius: "9999px",
+              transition: "height 0.1s linear, background-color 0.3s",
+            }}
+          />
+        ))}
+      </Box>
+      {isSilent && (
+        <Typography
+          role="status"
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            gap: 0.5,
+            mt: 1,
+            color: "#f59e0b",
+            fontSize: "0.75rem",
+            fontFamily: "monospace",
+          }}
+        >
+          <WarningAmber sx={{ fontSize: 14 }} />
+          No input detected. Check that your microphone is not muted.
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,235 @@
+import { StrictMode, createRef } from "react";
+import { act, render, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AvatarVideo, { type AvatarVideoHandle } from "./AvatarVideo";
+import { rooms } from "../test/livekit";
+import { AVATAR_SESSION_TOKEN_KEY } from "../utils/activeSession";
+
+vi.mock("livekit-client", () => import("../test/livekit"));
+
+const avatarSession = {
+  session_token: "token",
+  session_id: "avatar-1",
+  livekit_url: "wss://livekit.example",
+  livekit_token: "jwt",
+  room_name: "avatar-room",
+};
+
+function respondWith(body: unknown) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify(body)))
+  );
+}
+
+async function renderConnected() {
+  const ref = createRef<AvatarVideoHandle>();
+  const onConnected = vi.fn();
+  const onSessionCreated = vi.fn();
+  const view = render(
+    <AvatarVideo
+      ref={ref}
+      onConnected={onConnected}
+      onSessionCreated={onSessionCreated}
+    />
+  );
+  // onConnected is deliberately delayed to give the avatar time to join.
+  await waitFor(() => expect(onConnected).toHaveBeenCalled(), {
+    timeout: 2000,
+  });
+  return { ...view, ref, room: rooms[0], onSessionCreated };
+}
+
+describe("AvatarVideo", () => {
+  beforeEach(() => {
+    rooms.length = 0;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("creates a session and joins its LiveKit room", async () => {
+    respondWith(avatarSession);
+
+    const { ref, room, onSessionCreated } = await renderConnected();
+
+    expect(onSessionCreated).toHaveBeenCalledWith(
+      expect.objectContaining(avatarSession)
+    );
+    expect(rooms).toHaveLength(1);
+    expect(room.connect).toHaveBeenCalledWith("wss://livekit.example", "jwt");
+    expect(ref.current?.isConnected).toBe(true);
+  });
+
+  it("connects when StrictMode runs the connect effect twice", async () => {
+    respondWith(avatarSession);
+    const onConnected = vi.fn();
+
+    render(
+      <StrictMode>
+        <AvatarVideo onConnected={onConnected} />
+      </StrictMode>
+    );
+
+    await waitFor(() => expect(onConnected).toHaveBeenCalled(), {
+      timeout: 2000,
+    });
+    expect(rooms).toHaveLength(1);
+  });
+
+  it("stops a session created after it was unmounted", async () => {
+    let created!: () => void;
+    const fetchMock = vi.fn((url: string) =>
+      url.endsWith("/session/create/")
+        ? new Promise<Response>((resolve) => {
+            created = () =>
+              resolve(new Response(JSON.stringify(avatarSession)));
+          })
+        : Promise.resolve(new Response(JSON.stringify({ success: true })))
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { unmount } = render(<AvatarVideo />);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    unmount();
+    created();
+
+    await waitFor(() =>
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringContaining("/avatar/session/stop/"),
+        expect.objectContaining({
+          body: JSON.stringify({
+            session_token: "token",
+            session_id: "avatar-1",
+          }),
+        })
+      )
+    );
+    expect(rooms).toHaveLength(0);
+  });
+
+  it("gives up on an avatar that takes too long to connect", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const fetchMock = vi.fn(() => new Promise<Response>(() => {}));
+    vi.stubGlobal("fetch", fetchMock);
+    const onError = vi.fn();
+
+    render(<AvatarVideo onError={onError} />);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    await act(async () => vi.advanceTimersByTime(20_000));
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toContain("Timed out");
+    expect(rooms).toHaveLength(0);
+  });
+
+  it("sends speech as an agent-control data message", async () => {
+    respondWith(avatarSession);
+    const { ref, room } = await renderConnected();
+
+    const spoken = ref.current!.speak("Tell me about closures.");
+    room.finishSpeaking();
+    await spoken;
+
+    const publish = room.localParticipant.publishData;
+    expect(publish).toHaveBeenCalledTimes(1);
+    const [payload, options] = publish.mock.calls[0] as unknown as [
+      Uint8Array,
+      { topic: string }
+    ];
+    expect(options).toEqual({ topic: "agent-control" });
+    expect(JSON.parse(new TextDecoder().decode(payload))).toEqual({
+      event_type: "avatar.speak_text",
+      data: { text: "Tell me about closures." },
+    });
+  });
+
+  it("does not send speech while the room is reconnecting", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    respondWith(avatarSession);
+    const { ref, room } = await renderConnected();
+    room.state = "reconnecting";
+
+    await expect(ref.current!.speak("Hello")).rejects.toThrow("reconnecting");
+
+    expect(room.localParticipant.publishData).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it("finishes speaking only when the avatar says it has", async () => {
+    respondWith(avatarSession);
+    const { ref, room } = await renderConnected();
+    const finished = vi.fn();
+
+    const spoken = ref.current!.speak("Tell me about closures.").then(finished);
+    await waitFor(() =>
+      expect(room.localParticipant.publishData).toHaveBeenCalled()
+    );
+    expect(finished).not.toHaveBeenCalled();
+
+    room.finishSpeaking();
+    await spoken;
+    expect(finished).toHaveBeenCalled();
+  });
+
+  it("fails speech that is cut off by a disconnect", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    respondWith(avatarSession);
+    const { ref, room } = await renderConnected();
+
+    const cutOff = expect(
+      ref.current!.speak("Tell me about closures.")
+    ).rejects.toThrow("disconnected");
+    await waitFor(() =>
+      expect(room.localParticipant.publishData).toHaveBeenCalled()
+    );
+    await act(() => room.disconnect());
+
+    await cutOff;
+  });
+
+  it("leaves the room when disconnected", async () => {
+    respondWith(avatarSession);
+    const { ref, room } = await renderConnected();
+
+    await act(() => ref.current!.disconnect());
+
+    expect(room.disconnect).toHaveBeenCalledTimes(1);
+    expect(ref.current?.isConnected).toBe(false);
+  });
+
+  it("leaves the room when unmounted", async () => {
+    respondWith(avatarSession);
+    const { room, unmount } = await renderConnected();
+
+    unmount();
+
+    expect(room.disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a session without LiveKit details as an error", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    respondWith({ ...avatarSession, livekit_token: "" });
+    const onError = vi.fn();
+
+    render(<AvatarVideo onError={onError} />);
+
+    await waitFor(() => expect(onError).toHaveBeenCalled());
+    expect(onError.mock.calls[0][0].message).toContain(
+      "Missing LiveKit connection details"
+    );
+    expect(rooms).toHaveLength(0);
+  });
+
+  it("does not open a second session in the same tab", () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    sessionStorage.setItem(AVATAR_SESSION_TOKEN_KEY, "token");
+
+    render(<AvatarVideo />);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,38 @@
 import { Box, Button } from "@mui/material";
-import { useEffect, useRef, useState, useImperativeHandle, forwardRef } from "react";
+import { useEffect, useLayoutEffect, useRef, useState, useImperativeHandle, forwardRef } from "react";
 import { Room, RoomEvent, RemoteTrackPublication, RemoteTrack } from "livekit-client";
-import { createAvatarSession, type AvatarSessionResponse, type AvatarSpeakEvent } from "../api/interviewApi";
+import { ConcurrencyLimitError, createAvatarSession, stopAvatarSession, type AvatarSessionResponse, type AvatarSpeakEvent } from "../api/interviewApi";
+import { AVATAR_SESSION_TOKEN_KEY } from "../utils/activeSession";
+import { applyPreferredOutput } from "../utils/audioDevices";
+
+/** How long the avatar gets to join its room before the caller falls back. */
+const CONNECT_TIMEOUT_MS = 20_000;
+
+/** Event the avatar agent sends once it has stopped talking. */
+const SPEAK_ENDED_EVENT = "avatar.speak_ended";
+
+/**
+ * Upper bound on waiting for `SPEAK_ENDED_EVENT`, generous enough for slow
+ * speech, so a lost event cannot hold the interview up for good.
+ */
+const speechTimeoutMs = (text: string) =>
+  10_000 + text.split(/\s+/).length * 1_000;
+
+const isSpeakEnded = (payload: Uint8Array) => {
+  try {
+    return JSON.parse(new TextDecoder().decode(payload))?.event_type === SPEAK_ENDED_EVENT;
+  } catch {
+    return false;
+  }
+};
+
+interface PendingSpeech {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
 
 export interface AvatarVideoHandle {
+  /** Resolves once the avatar has finished saying `text`. */
   speak: (text: string) => Promise<void>;
   disconnect: () => Promise<void>;
   isConnected: boolean;
@@ -12,32 +41,51 @@ export interface AvatarVideoHandle {
 interface AvatarVideoProps {
   onSessionCreated?: (sessionData: AvatarSessionResponse) => void;
   onConnected?: () => void;
+  onError?: (error: Error) => void;
+  embedded?: boolean;
 }
 
-const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSessionCreated, onConnected }, ref) => {
+const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSessionCreated, onConnected, onError, embedded = false }, ref) => {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioElementsRef = useRef<HTMLAudioElement[]>([]);
   const roomRef = useRef<Room | null>(null);
   const isCreatingRef = useRef(false);
   const hasSessionRef = useRef(false);
+  const pendingSpeechRef = useRef<PendingSpeech | null>(null);
   const onSessionCreatedRef = useRef(onSessionCreated);
   const onConnectedRef = useRef(onConnected);
+  const onErrorRef = useRef(onError);
   const [isConnected, setIsConnected] = useState(false);
   const [showAudioEnableButton, setShowAudioEnableButton] = useState(false);
 
-  onSessionCreatedRef.current = onSessionCreated;
-  onConnectedRef.current = onConnected;
+  useLayoutEffect(() => {
+    onSessionCreatedRef.current = onSessionCreated;
+    onConnectedRef.current = onConnected;
+    onErrorRef.current = onError;
+  });
+
+  /** Settles the speech being waited on, if any. */
+  const settleSpeech = (error?: Error) => {
+    const pending = pendingSpeechRef.current;
+    pendingSpeechRef.current = null;
+    if (!pending) return;
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  };
 
   const speak = async (text: string): Promise<void> => {
     if (!roomRef.current) {
       console.warn("Room not initialized. Cannot send speak event.");
-      return;
+      throw new Error("Avatar room is not initialized");
     }
 
     if (roomRef.current.state !== "connected") {
       console.warn(`Room not connected. Current state: ${roomRef.current.state}. Cannot send speak event.`);
-      return;
+      throw new Error(`Avatar room is ${roomRef.current.state}`);
     }
 
     try {
@@ -61,6 +109,25 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
       console.log("📤 Payload as Uint8Array:", payloadBytes);
       console.log("📤 Payload length:", payloadBytes.length);
 
+      // Anything still being said has been talked over.
+      settleSpeech();
+      const spoken = new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          console.warn("Avatar did not report the end of its speech, carrying on.");
+          settleSpeech();
+        }, speechTimeoutMs(text));
+        pendingSpeechRef.current = {
+          resolve: () => {
+            clearTimeout(timeout);
+            resolve();
+          },
+          reject: (error) => {
+            clearTimeout(timeout);
+            reject(error);
+          },
+        };
+      });
+
       await roomRef.current.localParticipant.publishData(
         payloadBytes,
         { topic: "agent-control" }
@@ -70,8 +137,10 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
         text: eventData.data.text,
         timestamp: new Date().toISOString(),
       });
+      await spoken;
     } catch (error) {
       console.error("❌ Failed to send speak event:", error);
+      settleSpeech();
       throw error;
     }
   };
@@ -110,6 +179,7 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
       }
     }
     roomRef.current = null;
+    settleSpeech(new Error("Avatar disconnected while speaking"));
     setIsConnected(false);
     hasSessionRef.current = false;
     isCreatingRef.current = false;
@@ -127,14 +197,23 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
       return;
     }
 
-    const existingToken = sessionStorage.getItem("avatarSessionToken");
+    const existingToken = sessionStorage.getItem(AVATAR_SESSION_TOKEN_KEY);
     if (existingToken) {
       hasSessionRef.current = true;
+      onErrorRef.current?.(new Error("An avatar session is already open in this tab"));
       return;
     }
 
     let room: Room | null = null;
     let isMounted = true;
+    let timedOut = false;
+    const connectTimeout = setTimeout(() => {
+      timedOut = true;
+      room?.disconnect();
+      roomRef.current = null;
+      isCreatingRef.current = false;
+      onErrorRef.current?.(new Error("Timed out connecting to the avatar"));
+    }, CONNECT_TIMEOUT_MS);
 
     async function connectAvatar(): Promise<void> {
       if (isCreatingRef.current || !isMounted) {
@@ -143,15 +222,25 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
 
       isCreatingRef.current = true;
       try {
+        // Not aborted on unmount: the server may create the session anyway,
+        // and only its response carries the token needed to stop it.
         const data = await createAvatarSession();
-        
-        if (!isMounted) {
+
+        if (!isMounted || timedOut) {
+          stopAvatarSession(
+            { session_token: data.session_token, session_id: data.session_id },
+            { timeoutMs: 10_000 }
+          ).catch((error) => {
+            console.error("Failed to stop abandoned avatar session:", error);
+          });
           return;
         }
 
         if (!data.livekit_url || !data.livekit_token) {
           console.error("Missing LiveKit connection details:", data);
+          clearTimeout(connectTimeout);
           isCreatingRef.current = false;
+          onErrorRef.current?.(new Error("Missing LiveKit connection details in response"));
           return;
         }
 
@@ -175,6 +264,7 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
               const audioElement = track.attach(audioRef.current) as HTMLAudioElement;
               audioElement.volume = 1.0;
               audioElementsRef.current.push(audioElement);
+              applyPreferredOutput(audioElement);
               
               const playPromise = audioElement.play();
               if (playPromise !== undefined) {
@@ -206,9 +296,14 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
             topic,
             timestamp: new Date().toISOString(),
           });
+          if (isSpeakEnded(payload)) {
+            settleSpeech();
+          }
         });
 
         room.on(RoomEvent.Connected, () => {
+          if (timedOut) return;
+          clearTimeout(connectTimeout);
           console.log("✅ Connected to LiveKit room");
           console.log("📊 Room state:", {
             name: room?.name,
@@ -225,25 +320,30 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
 
         room.on(RoomEvent.Disconnected, () => {
           console.log("❌ Disconnected from LiveKit room");
+          settleSpeech(new Error("Avatar disconnected while speaking"));
           setIsConnected(false);
         });
 
         await room.connect(data.livekit_url, data.livekit_token);
         isCreatingRef.current = false;
       } catch (error) {
+        clearTimeout(connectTimeout);
         isCreatingRef.current = false;
-        if (!isMounted) {
+        if (!isMounted || timedOut) {
           return;
         }
-        if (error instanceof Error && (error as any).isConcurrencyLimit) {
+        if (error instanceof ConcurrencyLimitError) {
           console.error("Concurrency limit reached:", error.message);
-          alert("Too many active sessions. Please wait a moment and try again.");
+          if (!onErrorRef.current) {
+            alert("Too many active sessions. Please wait a moment and try again.");
+          }
         } else {
           console.error("Failed to connect avatar:", error);
           if (error instanceof Error) {
             console.error("Error details:", error.message);
           }
         }
+        onErrorRef.current?.(error instanceof Error ? error : new Error(String(error)));
       }
     }
 
@@ -251,6 +351,9 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
 
     return () => {
       isMounted = false;
+      clearTimeout(connectTimeout);
+      // StrictMode runs this effect twice; the second run has to connect again.
+      isCreatingRef.current = false;
       if (room) {
         room.disconnect();
         roomRef.current = null;
@@ -259,7 +362,8 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
   }, []);
 
   return (
-    <Box>
+    <Box sx={embedded ? { position: "relative", width: "100%", height: "100%" } : undefined}>
+      {!embedded && (
       <Box
         component="h3"
         sx={{
@@ -275,14 +379,19 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
       >
         VIRTUAL REVIEWER
       </Box>
+      )}
 
       <Box
-        sx={{
-          border: "4px solid #000000",
-          backgroundColor: "#000000",
-          padding: "4px",
-          boxShadow: "4px 4px 0px 0px #000000",
-        }}
+        sx={
+          embedded
+            ? { width: "100%", height: "100%", backgroundColor: "#000000" }
+            : {
+                border: "4px solid #000000",
+                backgroundColor: "#000000",
+                padding: "4px",
+                boxShadow: "4px 4px 0px 0px #000000",
+              }
+        }
       >
         <video
           ref={videoRef}
@@ -291,6 +400,8 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
           muted={false}
           style={{
             width: "100%",
+            height: embedded ? "100%" : undefined,
+            objectFit: embedded ? "cover" : undefined,
             display: "block",
             backgroundColor: "#000",
           }}
@@ -316,7 +427,8 @@ const AvatarVideo = forwardRef<AvatarVideoHandle, AvatarVideoProps>(({ onSession
       {showAudioEnableButton && (
         <Box
           sx={{
-            marginTop: "1rem",
+            ...(embedded && { position: "absolute", top: 16, left: 16, right: 16, zIndex: 20 }),
+            marginTop: embedded ? 0 : "1rem",
             padding: "1rem",
             border: "3px solid #000000",
             backgroundColor: "#FFFF00",
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  API_PROFILES,
+  getActiveApiProfile,
+  getApiBaseUrl,
+  resolveApiOverride,
+  setApiBaseUrl,
+} from "../api/config";
+
+const CUSTOM_PROFILE_ID = "custom";
+
+interface ConnectionSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved?: (baseUrl: string) => void;
+}
+
+function ConnectionSettingsForm({
+  onClose,
+  onSaved,
+}: Omit<ConnectionSettingsDialogProps, "open">) {
+  const [profileId, setProfileId] = useState(
+    () => getActiveApiProfile()?.id ?? CUSTOM_PROFILE_ID
+  );
+  const [customUrl, setCustomUrl] = useState(() =>
+    getActiveApiProfile() ? "" : getApiBaseUrl()
+  );
+
+  const customUrlResolved =
+    profileId === CUSTOM_PROFILE_ID ? resolveApiOverride(customUrl) : null;
+  const isCustomInvalid =
+    profileId === CUSTOM_PROFILE_ID && customUrl !== "" && !customUrlResolved;
+
+  const handleSave = () => {
+    let baseUrl: string;
+    if (profileId === CUSTOM_PROFILE_ID) {
+      if (!customUrlResolved) return;
+      baseUrl = customUrlResolved;
+      setApiBaseUrl(baseUrl);
+    } else {
+      const profile = API_PROFILES.find((p) => p.id === profileId);
+      if (!profile) return;
+      baseUrl = profile.baseUrl;
+      setApiBaseUrl(profile.id === API_PROFILES[0].id ? null : baseUrl);
+    }
+    onSaved?.(baseUrl);
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogTitle sx={{ fontSize: "1.125rem" }}>Connection Settings</DialogTitle>
+      <DialogContent>
+        <Typography sx={{ color: "#a1a1aa", fontSize: "0.75rem", mb: 2 }}>
+          Choose which backend the interview talks to. The selection is saved
+          in this browser.
+        </Typography>
+        <RadioGroup
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+        >
+          {API_PROFILES.map((profile) => (
+            <FormControlLabel
+              key={profile.id}
+              value={profile.id}
+              control={<Radio size="small" />}
+              label={
+                <Box>
+                  <Typography sx={{ fontSize: "0.875rem" }}>
+                    {profile.label}
+                  </Typography>
+                  <Typography
+                    sx={{
+                      fontSize: "0.75rem",
+                      color: "#71717a",
+                      fontFamily: "monospace",
+                      wordBreak: "break-all",
+                    }}
+                  >
+                    {profile.baseUrl}
+                  </Typography>
+                </Box>
+              }
+              sx={{ mb: 1, alignItems: "flex-start", "& .MuiRadio-root": { pt: 0.5 } }}
+            />
+          ))}
+          <FormControlLabel
+            value={CUSTOM_PROFILE_ID}
+            control={<Radio size="small" />}
+            label={<Typography sx={{ fontSize: "0.875rem" }}>Custom</Typography>}
+          />
+        </RadioGroup>
+        {profileId === CUSTOM_PROFILE_ID && (
+          <TextField
+            value={customUrl}
+            onChange={(e) => setCustomUrl(e.target.value)}
+            placeholder="http://localhost:8000/api/v1"
+            error={isCustomInvalid}
+            helperText={isCustomInvalid ? "Enter a valid http(s) URL" : " "}
+            size="small"
+            fullWidth
+            autoFocus
+            sx={{ mt: 1, "& input": { fontFamily: "monospace" } }}
+          />
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: "#a1a1aa" }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={profileId === CUSTOM_PROFILE_ID && !customUrlResolved}
+          sx={{ color: "black" }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </>
+  );
+}
+
+export default function ConnectionSettingsDialog({
+  open,
+  onClose,
+  onSaved,
+}: ConnectionSettingsDialogProps) {
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      fullWidth
+      maxWidth="xs"
+      slotProps={{
+        paper: {
+          sx: {
+            bgcolor: "rgba(24, 24, 27, 0.95)",
+            border: "1px solid rgba(255, 255, 255, 0.1)",
+            borderRadius: 3,
+            boxShadow: "0 25px 50px -12px rgba(0, 0, 0, 0.8)",
+          },
+        },
+      }}
+    >
+      {open && <ConnectionSettingsForm onClose={onClose} onSaved={onSaved} />}
+    </Dialog>
+  );
+}
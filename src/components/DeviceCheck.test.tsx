@@ -0,0 +1,36 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import DeviceCheck from "./DeviceCheck";
+import { installMediaFakes } from "../test/media";
+
+async function startClip() {
+  fireEvent.click(screen.getByRole("button", { name: "Test Devices" }));
+  fireEvent.click(
+    await screen.findByRole("button", { name: "Record Test Clip" })
+  );
+}
+
+describe("DeviceCheck", () => {
+  it("stops a test clip that is still recording when the check ends", async () => {
+    const media = installMediaFakes();
+    render(<DeviceCheck />);
+
+    await startClip();
+    fireEvent.click(screen.getByRole("button", { name: "Finish Check" }));
+
+    expect(media.recorders[0].state).toBe("inactive");
+    expect(media.stream.track.stop).toHaveBeenCalled();
+    expect(screen.getByRole("button", { name: "Test Devices" })).toBeVisible();
+  });
+
+  it("stops a test clip that is still recording when unmounted", async () => {
+    const media = installMediaFakes();
+    const { unmount } = render(<DeviceCheck />);
+
+    await startClip();
+    unmount();
+
+    expect(media.recorders[0].state).toBe("inactive");
+    expect(media.stream.track.stop).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,324 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import {
+  Box,
+  Button,
+  Card,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  FiberManualRecord,
+  GraphicEq,
+  PlayArrow,
+  Stop,
+} from "@mui/icons-material";
+import AudioLevelMeter from "./AudioLevelMeter";
+import {
+  createLevelAnalyser,
+  type LevelAnalyser,
+} from "../utils/audioAnalysis";
+import {
+  applyPreferredOutput,
+  ChosenMicrophoneMissingError,
+  describeMicrophoneError,
+  getPreferredDeviceId,
+  listAudioDevices,
+  openMicrophone,
+  setPreferredDeviceId,
+  supportsOutputSelection,
+} from "../utils/audioDevices";
+
+const TEST_CLIP_MS = 3000;
+
+const selectSx = {
+  "& .MuiInputBase-root": { fontSize: "0.75rem", fontFamily: "monospace" },
+  "& .MuiInputLabel-root": { fontSize: "0.75rem" },
+};
+
+const buttonSx = {
+  color: "#a1a1aa",
+  fontFamily: "monospace",
+  fontSize: "0.75rem",
+  textTransform: "none",
+  border: "none",
+  boxShadow: "none",
+  "&:hover": { color: "white", boxShadow: "none", transform: "none" },
+};
+
+/** Stops a test clip without keeping it and releases its microphone. */
+const abandonClip = (recorder: MediaRecorder) => {
+  recorder.ondataavailable = null;
+  recorder.onstop = null;
+  if (recorder.state !== "inactive") recorder.stop();
+  recorder.stream.getTracks().forEach((track) => track.stop());
+};
+
+/**
+ * Pre-interview check: pick the microphone and speaker, watch the input level
+ * and listen back to a short recording. Choices are saved for the interview.
+ */
+export default function DeviceCheck() {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [analyser, setAnalyser] = useState<LevelAnalyser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const [inputId, setInputId] = useState(
+    () => getPreferredDeviceId("audioinput") ?? ""
+  );
+  const [outputId, setOutputId] = useState(
+    () => getPreferredDeviceId("audiooutput") ?? ""
+  );
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [isRecordingClip, setIsRecordingClip] = useState(false);
+  const [isPlayingClip, setIsPlayingClip] = useState(false);
+  const clipRecorderRef = useRef<MediaRecorder | null>(null);
+
+  useEffect(() => {
+    if (!stream) return;
+    return () => stream.getTracks().forEach((track) => track.stop());
+  }, [stream]);
+
+  useEffect(() => {
+    if (!analyser) return;
+    return () => analyser.close();
+  }, [analyser]);
+
+  useEffect(() => {
+    const clipRecorder = clipRecorderRef;
+    return () => {
+      if (clipRecorder.current) abandonClip(clipRecorder.current);
+      clipRecorder.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!clipUrl) return;
+    return () => URL.revokeObjectURL(clipUrl);
+  }, [clipUrl]);
+
+  const refreshDevices = async () => {
+    try {
+      setInputs(await listAudioDevices("audioinput"));
+      setOutputs(await listAudioDevices("audiooutput"));
+    } catch (err) {
+      console.error("Failed to list audio devices:", err);
+    }
+  };
+
+  const onDeviceChange = useEffectEvent(() => {
+    refreshDevices();
+  });
+
+  useEffect(() => {
+    if (!stream) return;
+    const mediaDevices = navigator.mediaDevices;
+    const handleDeviceChange = () => onDeviceChange();
+    mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    return () =>
+      mediaDevices.removeEventListener("devicechange", handleDeviceChange);
+  }, [stream]);
+
+  const startCheck = async () => {
+    setError(null);
+    try {
+      // Device labels are only exposed once permission has been granted.
+      const opened = await openMicrophone();
+      setStream(opened);
+      setAnalyser(createLevelAnalyser(opened));
+      await refreshDevices();
+    } catch (err) {
+      console.error("Microphone check failed:", err);
+      if (err instanceof ChosenMicrophoneMissingError) setInputId("");
+      setStream(null);
+      setAnalyser(null);
+      setError(describeMicrophoneError(err));
+    }
+  };
+
+  const discardClip = () => {
+    if (clipRecorderRef.current) abandonClip(clipRecorderRef.current);
+    clipRecorderRef.current = null;
+    setIsRecordingClip(false);
+    setClipUrl(null);
+  };
+
+  const stopCheck = () => {
+    discardClip();
+    setStream(null);
+    setAnalyser(null);
+  };
+
+  const selectInput = (deviceId: string) => {
+    setInputId(deviceId);
+    setPreferredDeviceId("audioinput", deviceId || null);
+    discardClip();
+    startCheck();
+  };
+
+  const selectOutput = (deviceId: string) => {
+    setOutputId(deviceId);
+    setPreferredDeviceId("audiooutput", deviceId || null);
+  };
+
+  const recordClip = () => {
+    if (!stream) return;
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      clipRecorderRef.current = null;
+      setIsRecordingClip(false);
+      if (chunks.length > 0) {
+        setClipUrl(
+          URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType }))
+        );
+      }
+    };
+    setClipUrl(null);
+    setIsRecordingClip(true);
+    clipRecorderRef.current = recorder;
+    recorder.start();
+    setTimeout(() => {
+      if (recorder.state !== "inactive") recorder.stop();
+    }, TEST_CLIP_MS);
+  };
+
+  const playClip = async () => {
+    if (!clipUrl) return;
+    const audio = new Audio(clipUrl);
+    await applyPreferredOutput(audio);
+    audio.onended = () => setIsPlayingClip(false);
+    setIsPlayingClip(true);
+    try {
+      await audio.play();
+    } catch (err) {
+      console.error("Failed to play test clip:", err);
+      setIsPlayingClip(false);
+    }
+  };
+
+  const knownInputId = inputs.some((d) => d.deviceId === inputId)
+    ? inputId
+    : "";
+  const knownOutputId = outputs.some((d) => d.deviceId === outputId)
+    ? outputId
+    : "";
+
+  return (
+    <Card
+      sx={{
+        bgcolor: "rgba(24, 24, 27, 0.6)",
+        border: "1px solid rgba(255, 255, 255, 0.05)",
+        borderRadius: 3,
+        boxShadow: "none",
+        p: 2,
+        mb: 3,
+      }}
+    >
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography
+          sx={{
+            color: "#a1a1aa",
+            fontFamily: "monospace",
+            fontSize: "0.75rem",
+            textTransform: "uppercase",
+            letterSpacing: "0.1em",
+          }}
+        >
+          Device Check
+        </Typography>
+        <Button
+          onClick={stream ? stopCheck : startCheck}
+          startIcon={
+            stream ? (
+              <Stop sx={{ fontSize: 16 }} />
+            ) : (
+              <GraphicEq sx={{ fontSize: 16 }} />
+            )
+          }
+          sx={buttonSx}
+        >
+          {stream ? "Finish Check" : "Test Devices"}
+        </Button>
+      </Stack>
+
+      {error && (
+        <Typography
+          role="alert"
+          sx={{ color: "#ef4444", fontSize: "0.75rem", mt: 1 }}
+        >
+          {error}
+        </Typography>
+      )}
+
+      {stream && (
+        <Stack spacing={2} sx={{ mt: 2 }}>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+            <TextField
+              select
+              size="small"
+              label="Microphone"
+              value={knownInputId}
+              onChange={(e) => selectInput(e.target.value)}
+              fullWidth
+              sx={selectSx}
+            >
+              <MenuItem value="">System default</MenuItem>
+              {inputs.map((device, i) => (
+                <MenuItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Microphone ${i + 1}`}
+                </MenuItem>
+              ))}
+            </TextField>
+            {supportsOutputSelection() && outputs.length > 0 && (
+              <TextField
+                select
+                size="small"
+                label="Speaker"
+                value={knownOutputId}
+                onChange={(e) => selectOutput(e.target.value)}
+                fullWidth
+                sx={selectSx}
+              >
+                <MenuItem value="">System default</MenuItem>
+                {outputs.map((device, i) => (
+                  <MenuItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Speaker ${i + 1}`}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Stack>
+
+          <AudioLevelMeter analyser={analyser} height={32} />
+
+          <Box sx={{ display: "flex", justifyContent: "center", gap: 1 }}>
+            <Button
+              onClick={recordClip}
+              disabled={isRecordingClip}
+              startIcon={
+                <FiberManualRecord sx={{ fontSize: 14, color: "#f43f5e" }} />
+              }
+              sx={buttonSx}
+            >
+              {isRecordingClip ? "Recording..." : "Record Test Clip"}
+            </Button>
+            <Button
+              onClick={playClip}
+              disabled={!clipUrl || isPlayingClip}
+              startIcon={<PlayArrow sx={{ fontSize: 16 }} />}
+              sx={buttonSx}
+            >
+              Play Back
+            </Button>
+          </Box>
+        </Stack>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState, type ReactNode } from "react";
+import {
+  Box,
+  Card,
+  Chip,
+  Collapse,
+  IconButton,
+  Stack,
+  Typography,
+} from "@mui/material";
+import {
+  ExpandLess,
+  ExpandMore,
+  Flag,
+  RateReview,
+  RemoveCircleOutline,
+} from "@mui/icons-material";
+import type { SubmitAnswerResponse } from "../api/interviewApi";
+import { formatTime } from "../utils/time";
+
+export type AnswerFeedback = {
+  questionIndex: number;
+  question: string;
+  transcript: string;
+  score: number;
+  feedback: SubmitAnswerResponse["feedback"];
+  /** Seconds from the question being asked to the answer being submitted. */
+  timeSpentSeconds?: number;
+};
+
+interface FeedbackPanelProps {
+  answers: AnswerFeedback[];
+}
+
+const FeedbackList = ({
+  label,
+  items,
+  color,
+  icon,
+}: {
+  label: string;
+  items: string[];
+  color: string;
+  icon: ReactNode;
+}) => (
+  <Box sx={{ mt: 1.5 }}>
+    <Stack direction="row" spacing={0.75} alignItems="center" sx={{ mb: 0.5 }}>
+      {icon}
+      <Typography
+        variant="caption"
+        sx={{
+          color,
+          fontFamily: "monospace",
+          textTransform: "uppercase",
+          letterSpacing: "0.1em",
+        }}
+      >
+        {label}
+      </Typography>
+    </Stack>
+    {items.length === 0 ? (
+      <Typography sx={{ fontSize: "0.75rem", color: "#52525b" }}>
+        None
+      </Typography>
+    ) : (
+      <Stack component="ul" spacing={0.5} sx={{ m: 0, pl: 2 }}>
+        {items.map((item, i) => (
+          <Typography
+            key={i}
+            component="li"
+            sx={{ fontSize: "0.75rem", color: "#d4d4d8", lineHeight: 1.5 }}
+          >
+            {item}
+          </Typography>
+        ))}
+      </Stack>
+    )}
+  </Box>
+);
+
+export const FeedbackCard = ({ answer }: { answer: AnswerFeedback }) => (
+  <Card
+    sx={{
+      bgcolor: "rgba(39, 39, 42, 0.5)",
+      border: "1px solid rgba(255, 255, 255, 0.05)",
+      borderRadius: 3,
+      p: 2,
+    }}
+  >
+    <Stack
+      direction="row"
+      justifyContent="space-between"
+      alignItems="flex-start"
+      spacing={1}
+      sx={{ mb: 1 }}
+    >
+      <Box sx={{ minWidth: 0 }}>
+        <Typography
+          sx={{
+            fontSize: "0.75rem",
+            color: "#818cf8",
+            fontFamily: "monospace",
+            mb: 0.5,
+          }}
+        >
+          Question {answer.questionIndex + 1}
+          {answer.timeSpentSeconds !== undefined &&
+            ` • ${formatTime(answer.timeSpentSeconds)}`}
+        </Typography>
+        <Typography sx={{ fontSize: "0.8125rem", color: "white" }}>
+          {answer.question}
+        </Typography>
+      </Box>
+      <Chip
+        label={answer.score}
+        sx={{
+          bgcolor: "transparent",
+          border: "1px solid rgba(16, 185, 129, 0.4)",
+          color: "#10b981",
+          fontFamily: "monospace",
+          fontSize: "0.75rem",
+          fontWeight: 700,
+          height: 24,
+          flexShrink: 0,
+        }}
+      />
+    </Stack>
+
+    <Typography
+      sx={{
+        fontSize: "0.75rem",
+        color: "#a1a1aa",
+        fontStyle: "italic",
+        lineHeight: 1.6,
+      }}
+    >
+      “{answer.transcript || "No speech detected"}”
+    </Typography>
+
+    {answer.feedback.summary && (
+      <Typography
+        sx={{ fontSize: "0.75rem", color: "#d4d4d8", mt: 1.5, lineHeight: 1.6 }}
+      >
+        {answer.feedback.summary}
+      </Typography>
+    )}
+
+    <FeedbackList
+      label="Missed Points"
+      items={answer.feedback.missed_points}
+      color="#f59e0b"
+      icon={<RemoveCircleOutline sx={{ fontSize: 12, color: "#f59e0b" }} />}
+    />
+    <FeedbackList
+      label="Red Flags"
+      items={answer.feedback.red_flags}
+      color="#ef4444"
+      icon={<Flag sx={{ fontSize: 12, color: "#ef4444" }} />}
+    />
+  </Card>
+);
+
+export default function FeedbackPanel({ answers }: FeedbackPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <Box
+      sx={{
+        px: 3,
+        pb: 3,
+        flex: 1,
+        minHeight: 0,
+        display: "flex",
+        flexDirection: "column",
+      }}
+    >
+      <Stack
+        direction="row"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{ mb: 2 }}
+      >
+        <Stack direction="row" spacing={1} alignItems="center">
+          <RateReview sx={{ fontSize: 14 }} />
+          <Typography
+            variant="caption"
+            sx={{
+              color: "#71717a",
+              fontFamily: "monospace",
+              textTransform: "uppercase",
+              letterSpacing: "0.1em",
+            }}
+          >
+            Answer Feedback ({answers.length})
+          </Typography>
+        </Stack>
+        <IconButton
+          size="small"
+          onClick={() => setIsOpen((open) => !open)}
+          aria-label={isOpen ? "Collapse feedback" : "Expand feedback"}
+          sx={{ color: "#71717a", "&:hover": { color: "white" } }}
+        >
+          {isOpen ? (
+            <ExpandLess sx={{ fontSize: 18 }} />
+          ) : (
+            <ExpandMore sx={{ fontSize: 18 }} />
+          )}
+        </IconButton>
+      </Stack>
+
+      <Collapse in={isOpen} sx={{ minHeight: 0, overflowY: "auto" }}>
+        {answers.length === 0 ? (
+          <Typography sx={{ fontSize: "0.75rem", color: "#52525b" }}>
+            Feedback for each answer will appear here.
+          </Typography>
+        ) : (
+          <Stack spacing={2}>
+            {answers.map((answer, i) => (
+              <FeedbackCard key={i} answer={answer} />
+            ))}
+          </Stack>
+        )}
+      </Collapse>
+    </Box>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Box, Slider, Typography } from "@mui/material";
+import {
+  HANG_TIME_RANGE_MS,
+  SILENCE_THRESHOLD_RANGE,
+  loadVoiceActivitySettings,
+  saveVoiceActivitySettings,
+  type VoiceActivitySettings,
+} from "../utils/voiceActivity";
+
+const labelSx = {
+  color: "#71717a",
+  fontFamily: "monospace",
+  fontSize: "0.75rem",
+};
+
+/** Tuning for hands-free mode; changes are saved for future interviews. */
+export default function HandsFreeSettings() {
+  const [settings, setSettings] = useState(loadVoiceActivitySettings);
+
+  const update = (patch: Partial<VoiceActivitySettings>, persist = false) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    if (persist) saveVoiceActivitySettings(next);
+  };
+
+  return (
+    <Box sx={{ maxWidth: "20rem", mx: "auto", mb: 3 }}>
+      <Typography sx={labelSx}>
+        Silence threshold: {settings.silenceThreshold.toFixed(3)}
+      </Typography>
+      <Slider
+        size="small"
+        min={SILENCE_THRESHOLD_RANGE.min}
+        max={SILENCE_THRESHOLD_RANGE.max}
+        step={0.005}
+        value={settings.silenceThreshold}
+        onChange={(_, value) => update({ silenceThreshold: value })}
+        onChangeCommitted={(_, value) =>
+          update({ silenceThreshold: value }, true)
+        }
+        aria-label="Silence threshold"
+      />
+      <Typography sx={labelSx}>
+        Submit after {(settings.hangTimeMs / 1000).toFixed(1)}s of silence
+      </Typography>
+      <Slider
+        size="small"
+        min={HANG_TIME_RANGE_MS.min}
+        max={HANG_TIME_RANGE_MS.max}
+        step={500}
+        value={settings.hangTimeMs}
+        onChange={(_, value) => update({ hangTimeMs: value })}
+        onChangeCommitted={(_, value) => update({ hangTimeMs: value }, true)}
+        aria-label="Silence hang time"
+      />
+    </Box>
+  );
+}
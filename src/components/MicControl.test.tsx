@@ -0,0 +1,39 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { installMediaFakes } from "../test/media";
+import MicControl from "./MicControl";
+
+describe("MicControl", () => {
+  it("pauses, resumes and submits the answer", async () => {
+    const media = installMediaFakes();
+    const onSubmit = vi.fn();
+    render(<MicControl onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "ANSWER" }));
+    fireEvent.click(await screen.findByRole("button", { name: "PAUSE" }));
+    expect(screen.getByRole("timer")).toHaveTextContent("PAUSED 00:00");
+    fireEvent.click(screen.getByRole("button", { name: "RESUME" }));
+    fireEvent.click(screen.getByRole("button", { name: "STOP ANSWERING" }));
+
+    expect(onSubmit).toHaveBeenCalledWith(expect.any(Blob));
+    expect(media.stream.track.stop).toHaveBeenCalled();
+    expect(screen.queryByRole("timer")).not.toBeInTheDocument();
+  });
+
+  it("explains why the microphone could not be opened", async () => {
+    const media = installMediaFakes();
+    media.getUserMedia.mockRejectedValue(
+      new DOMException("Permission denied", "NotAllowedError")
+    );
+    const onError = vi.fn();
+    render(<MicControl onSubmit={vi.fn()} onError={onError} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "ANSWER" }));
+
+    await vi.waitFor(() =>
+      expect(onError).toHaveBeenCalledWith(
+        expect.stringContaining("permission was denied")
+      )
+    );
+  });
+});
@@ -1,86 +1,109 @@
-import { Button } from "@mui/material";
+import { Button, Stack, Typography } from "@mui/material";
 import MicIcon from "@mui/icons-material/Mic";
+import PauseIcon from "@mui/icons-material/Pause";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
 import StopIcon from "@mui/icons-material/Stop";
-import { useRef, useState } from "react";
+import useAudioRecorder from "../hooks/useAudioRecorder";
+import { describeMicrophoneError } from "../utils/audioDevices";
+import { formatTime } from "../utils/time";
 
 interface MicControlProps {
   onSubmit: (audio: Blob) => void;
+  onError?: (message: string) => void;
   disabled?: boolean;
 }
 
-export default function MicControl({ onSubmit, disabled = false }: MicControlProps) {
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<BlobPart[]>([]);
-  const [recording, setRecording] = useState<boolean>(false);
+const buttonSx = (color: string, backgroundColor: string, hoverColor: string) => ({
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: "1rem",
+  fontWeight: 800,
+  border: "4px solid #000000",
+  borderRadius: 0,
+  padding: "1rem 2rem",
+  backgroundColor,
+  color,
+  textTransform: "uppercase",
+  letterSpacing: "0.1em",
+  boxShadow: "4px 4px 0px 0px #000000",
+  "&:hover": {
+    backgroundColor: hoverColor,
+    transform: "translate(2px, 2px)",
+    boxShadow: "2px 2px 0px 0px #000000",
+  },
+  "&:active": {
+    transform: "translate(4px, 4px)",
+    boxShadow: "0px 0px 0px 0px #000000",
+  },
+});
 
-  const startRecording = async (): Promise<void> => {
-    const stream: MediaStream = await navigator.mediaDevices.getUserMedia({
-      audio: true,
-    });
-
-    const recorder = new MediaRecorder(stream);
-    mediaRecorderRef.current = recorder;
-
-    recorder.ondataavailable = (event: BlobEvent) => {
-      chunksRef.current.push(event.data);
-    };
-
-    recorder.start();
-    setRecording(true);
-  };
-
-  const stopRecording = (): void => {
-    const recorder = mediaRecorderRef.current;
-    if (!recorder) return;
-
-    recorder.stop();
-    setRecording(false);
-
-    recorder.onstop = () => {
-      const audioBlob = new Blob(chunksRef.current, {
-        type: "audio/webm",
-      });
-      chunksRef.current = [];
-      onSubmit(audioBlob);
-    };
-  };
+export default function MicControl({ onSubmit, onError, disabled = false }: MicControlProps) {
+  const recorder = useAudioRecorder({
+    onStop: (recording) => {
+      if (recording) onSubmit(recording.blob);
+    },
+    onError: (error) => {
+      console.error("Failed to start recording:", error);
+      onError?.(describeMicrophoneError(error));
+    },
+  });
+  const paused = recorder.state === "paused";
+  const recording = recorder.state === "recording" || paused;
 
   return (
-    <Button
-      onClick={recording ? stopRecording : startRecording}
-      disabled={disabled}
-      sx={{
-        fontFamily: "'JetBrains Mono', monospace",
-        fontSize: "1rem",
-        fontWeight: 800,
-        border: "4px solid #000000",
-        borderRadius: 0,
-        padding: "1rem 2rem",
-        backgroundColor: recording ? "#FF0000" : "#000000",
-        color: "#FFFFFF",
-        textTransform: "uppercase",
-        letterSpacing: "0.1em",
-        boxShadow: "4px 4px 0px 0px #000000",
-        width: "100%",
-        "&:hover": {
-          backgroundColor: recording ? "#CC0000" : "#333333",
-          transform: "translate(2px, 2px)",
-          boxShadow: "2px 2px 0px 0px #000000",
-        },
-        "&:active": {
-          transform: "translate(4px, 4px)",
-          boxShadow: "0px 0px 0px 0px #000000",
-        },
-      }}
-      startIcon={
-        recording ? (
-          <StopIcon sx={{ fontSize: "1.5rem" }} />
-        ) : (
-          <MicIcon sx={{ fontSize: "1.5rem" }} />
-        )
-      }
-    >
-      {recording ? "STOP ANSWERING" : "ANSWER"}
-    </Button>
+    <Stack spacing={1.5} sx={{ width: "100%" }}>
+      <Stack direction="row" spacing={1.5}>
+        <Button
+          onClick={recording ? recorder.stop : recorder.start}
+          disabled={disabled || recorder.state === "starting"}
+          sx={{
+            ...buttonSx(
+              "#FFFFFF",
+              recording ? "#FF0000" : "#000000",
+              recording ? "#CC0000" : "#333333"
+            ),
+            flex: 1,
+          }}
+          startIcon={
+            recording ? (
+              <StopIcon sx={{ fontSize: "1.5rem" }} />
+            ) : (
+              <MicIcon sx={{ fontSize: "1.5rem" }} />
+            )
+          }
+        >
+          {recording ? "STOP ANSWERING" : "ANSWER"}
+        </Button>
+        {recording && (
+          <Button
+            onClick={paused ? recorder.resume : recorder.pause}
+            disabled={disabled}
+            sx={buttonSx("#000000", "#FFFFFF", "#E4E4E7")}
+            startIcon={
+              paused ? (
+                <PlayArrowIcon sx={{ fontSize: "1.5rem" }} />
+              ) : (
+                <PauseIcon sx={{ fontSize: "1.5rem" }} />
+              )
+            }
+          >
+            {paused ? "RESUME" : "PAUSE"}
+          </Button>
+        )}
+      </Stack>
+      {recording && (
+        <Typography
+          role="timer"
+          sx={{
+            fontFamily: "'JetBrains Mono', monospace",
+            fontSize: "0.875rem",
+            fontWeight: 800,
+            letterSpacing: "0.1em",
+            color: paused ? "#000000" : "#FF0000",
+          }}
+        >
+          {paused ? "PAUSED" : "● REC"} {formatTime(recorder.duration)}
+        </Typography>
+      )}
+    </Stack>
   );
 }
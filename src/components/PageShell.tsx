@@ -0,0 +1,95 @@
+import type { ReactNode } from "react";
+import { Box } from "@mui/material";
+
+interface PageShellProps {
+  children: ReactNode;
+  glow?: boolean;
+  scrollable?: boolean;
+}
+
+export default function PageShell({
+  children,
+  glow = true,
+  scrollable = false,
+}: PageShellProps) {
+  return (
+    <Box
+      sx={{
+        minHeight: "100vh",
+        bgcolor: "#09090b",
+        color: "white",
+        overflowY: scrollable ? "auto" : "hidden",
+        overflowX: "hidden",
+        position: "relative",
+      }}
+    >
+      <Box
+        sx={{
+          position: "fixed",
+          inset: 0,
+          zIndex: 0,
+          pointerEvents: "none",
+          backgroundImage: `
+            linear-gradient(to right, rgba(128,128,128,0.07) 1px, transparent 1px),
+            linear-gradient(to bottom, rgba(128,128,128,0.07) 1px, transparent 1px)
+          `,
+          backgroundSize: "24px 24px",
+          ...(glow && {
+            "&::before": {
+              content: '""',
+              position: "absolute",
+              top: 0,
+              left: 0,
+              right: 0,
+              height: "500px",
+              background:
+                "linear-gradient(to bottom, rgba(79, 70, 229, 0.2), transparent)",
+              filter: "blur(100px)",
+            },
+          }),
+        }}
+      />
+
+      {children}
+
+      <style>
+        {`
+          @keyframes pulse {
+            0%, 100% {
+              opacity: 1;
+            }
+            50% {
+              opacity: 0.5;
+            }
+          }
+          @keyframes ping {
+            0% {
+              transform: scale(1);
+              opacity: 1;
+            }
+            75%, 100% {
+              transform: scale(1.5);
+              opacity: 0;
+            }
+          }
+          @keyframes bounce {
+            0%, 100% {
+              transform: translateY(0);
+            }
+            50% {
+              transform: translateY(-10px);
+            }
+          }
+          @keyframes spin {
+            0% {
+              transform: rotate(0deg);
+            }
+            100% {
+              transform: rotate(360deg);
+            }
+          }
+        `}
+      </style>
+    </Box>
+  );
+}
@@ -0,0 +1,156 @@
+import { Box, Typography } from "@mui/material";
+import { getScoreTier } from "../utils/scoreTiers";
+import type { SessionReport } from "../utils/sessionReport";
+import { formatTime } from "../utils/time";
+
+interface PrintableReportProps {
+  report: SessionReport;
+}
+
+const headingSx = {
+  fontFamily: "inherit",
+  fontSize: "0.875rem",
+  fontWeight: 700,
+  textTransform: "uppercase",
+  letterSpacing: "0.05em",
+  borderBottom: "1px solid #d4d4d8",
+  pb: 0.5,
+  mt: 3,
+  mb: 1.5,
+};
+
+const bodySx = { fontSize: "0.8125rem", fontWeight: 400, lineHeight: 1.6 };
+
+const labelSx = { ...bodySx, color: "#52525b", fontWeight: 700 };
+
+/**
+ * Paper version of the results, hidden on screen and shown instead of the page
+ * when printing, so "Save as PDF" in the print dialog produces the report.
+ */
+export default function PrintableReport({ report }: PrintableReportProps) {
+  const { results, week, answers } = report;
+  const tier = getScoreTier(results.performance_score);
+
+  const facts: [string, string][] = [
+    [
+      "Performance",
+      `${Math.round(results.performance_score)}% (${tier.label})`,
+    ],
+    ["Average score", results.average_score.toFixed(1)],
+    ["Questions answered", String(results.questions_answered)],
+    ["Time", results.time_elapsed_formatted],
+    ["Session", report.session_id],
+    ["Exported", new Date(report.exported_at).toLocaleString()],
+  ];
+
+  return (
+    <Box
+      sx={{
+        display: "none",
+        displayPrint: "block",
+        bgcolor: "white",
+        color: "black",
+        fontFamily: "'JetBrains Mono', monospace",
+      }}
+    >
+      <Typography
+        component="h1"
+        sx={{ fontFamily: "inherit", fontSize: "1.5rem", fontWeight: 700 }}
+      >
+        Interview Report
+      </Typography>
+      <Typography sx={{ ...bodySx, color: "#52525b" }}>
+        {week ? `Week ${week.number} • ${week.title}` : "Interview Results"}
+      </Typography>
+
+      <Box
+        component="dl"
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "max-content 1fr",
+          columnGap: 3,
+          rowGap: 0.5,
+          mt: 2,
+          "& dd": { m: 0 },
+        }}
+      >
+        {facts.map(([label, value]) => (
+          <Box key={label} sx={{ display: "contents" }}>
+            <Typography component="dt" sx={labelSx}>
+              {label}
+            </Typography>
+            <Typography component="dd" sx={bodySx}>
+              {value}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+
+      {results.mentor_feedback && (
+        <>
+          <Typography component="h2" sx={headingSx}>
+            Mentor Note
+          </Typography>
+          <Typography sx={bodySx}>{results.mentor_feedback}</Typography>
+        </>
+      )}
+
+      {results.skill_breakdown && (
+        <>
+          <Typography component="h2" sx={headingSx}>
+            Skill Assessment
+          </Typography>
+          {Object.entries(results.skill_breakdown).map(([skill, score]) => (
+            <Typography key={skill} sx={bodySx}>
+              {skill}: {score}%
+            </Typography>
+          ))}
+        </>
+      )}
+
+      <Typography component="h2" sx={headingSx}>
+        Answers
+      </Typography>
+      {answers === null ? (
+        <Typography sx={bodySx}>
+          Transcripts could not be loaded for this report.
+        </Typography>
+      ) : (
+        answers.map((answer) => (
+          <Box
+            key={answer.question_index}
+            sx={{ mb: 2.5, breakInside: "avoid" }}
+          >
+            <Typography sx={{ ...bodySx, fontWeight: 700 }}>
+              Q{answer.question_index + 1}. {answer.question} — {answer.score}
+              {answer.time_spent_seconds !== null &&
+                ` • ${formatTime(answer.time_spent_seconds)}`}
+            </Typography>
+            <Typography sx={{ ...bodySx, fontStyle: "italic" }}>
+              “{answer.transcript || "No transcript"}”
+            </Typography>
+            {answer.summary && (
+              <Typography sx={bodySx}>{answer.summary}</Typography>
+            )}
+            {answer.missed_points.length > 0 && (
+              <Typography sx={bodySx}>
+                <Box component="span" sx={labelSx}>
+                  Missed:{" "}
+                </Box>
+                {answer.missed_points.join("; ")}
+              </Typography>
+            )}
+            {answer.red_flags.length > 0 && (
+              <Typography sx={bodySx}>
+                <Box component="span" sx={labelSx}>
+                  Red flags:{" "}
+                </Box>
+                {answer.red_flags.join("; ")}
+              </Typography>
+            )}
+          </Box>
+        ))
+      )}
+    </Box>
+  );
+}
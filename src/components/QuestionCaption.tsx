@@ -0,0 +1,60 @@
+import { Box } from "@mui/material";
+import type { WordTiming } from "../api/interviewApi";
+import { countSpokenWords, type CaptionMode } from "../utils/captions";
+
+interface QuestionCaptionProps {
+  text: string;
+  mode: CaptionMode;
+  /** Timings for `text`, or null while its audio is not ready. */
+  timings: WordTiming[] | null;
+  currentTime: number;
+  /** Whether words are still being revealed as they are spoken. */
+  revealing: boolean;
+}
+
+/**
+ * Renders the question as captions. Unspoken words keep their space so the
+ * layout does not shift as the sentence fills in.
+ */
+export default function QuestionCaption({
+  text,
+  mode,
+  timings,
+  currentTime,
+  revealing,
+}: QuestionCaptionProps) {
+  if (mode === "hidden") {
+    return (
+      <Box component="span" sx={{ color: "#52525b", fontSize: "0.6em" }}>
+        Question text hidden for listening practice
+      </Box>
+    );
+  }
+
+  const words = text.split(/\s+/).filter(Boolean);
+  const visibleCount =
+    mode === "live" && revealing
+      ? timings
+        ? countSpokenWords(timings, currentTime)
+        : 0
+      : words.length;
+
+  return (
+    <Box component="span" aria-live={mode === "live" ? "polite" : undefined}>
+      {words.map((word, i) => (
+        <Box
+          key={i}
+          component="span"
+          aria-hidden={i >= visibleCount}
+          sx={{
+            opacity: i < visibleCount ? 1 : 0,
+            transition: "opacity 0.15s",
+          }}
+        >
+          {word}
+          {i < words.length - 1 && " "}
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  IconButton,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from "@mui/material";
+import {
+  ClosedCaption,
+  Replay,
+  Subject,
+  VisibilityOff,
+} from "@mui/icons-material";
+import {
+  PLAYBACK_RATES,
+  type CaptionMode,
+  type CaptionSettings,
+} from "../utils/captions";
+
+interface QuestionPlaybackControlsProps {
+  settings: CaptionSettings;
+  onChange: (settings: CaptionSettings) => void;
+  onReplay: () => void;
+  canReplay: boolean;
+}
+
+const toggleSx = {
+  "& .MuiToggleButton-root": {
+    color: "#71717a",
+    borderColor: "rgba(255, 255, 255, 0.1)",
+    fontFamily: "monospace",
+    fontSize: "0.6875rem",
+    px: 1,
+    py: 0.25,
+    "&.Mui-selected": {
+      color: "#10b981",
+      bgcolor: "rgba(16, 185, 129, 0.1)",
+    },
+  },
+};
+
+const MODE_OPTIONS: {
+  mode: CaptionMode;
+  label: string;
+  icon: typeof Subject;
+}[] = [
+  { mode: "full", label: "Show full question", icon: Subject },
+  { mode: "live", label: "Live captions", icon: ClosedCaption },
+  { mode: "hidden", label: "Hide question text", icon: VisibilityOff },
+];
+
+export default function QuestionPlaybackControls({
+  settings,
+  onChange,
+  onReplay,
+  canReplay,
+}: QuestionPlaybackControlsProps) {
+  return (
+    <Stack
+      direction="row"
+      spacing={1.5}
+      justifyContent="center"
+      alignItems="center"
+      sx={{ mt: 2 }}
+    >
+      <Tooltip title="Replay question">
+        <span>
+          <IconButton
+            onClick={onReplay}
+            disabled={!canReplay}
+            aria-label="Replay question"
+            size="small"
+            sx={{ color: "#a1a1aa", "&:hover": { color: "white" } }}
+          >
+            <Replay fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        value={settings.playbackRate}
+        onChange={(_, rate: number | null) => {
+          if (rate !== null) onChange({ ...settings, playbackRate: rate });
+        }}
+        aria-label="Playback speed"
+        sx={toggleSx}
+      >
+        {PLAYBACK_RATES.map((rate) => (
+          <ToggleButton key={rate} value={rate}>
+            {rate}×
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        value={settings.mode}
+        onChange={(_, mode: CaptionMode | null) => {
+          if (mode !== null) onChange({ ...settings, mode });
+        }}
+        aria-label="Question text"
+        sx={toggleSx}
+      >
+        {MODE_OPTIONS.map(({ mode, label, icon: Icon }) => (
+          <ToggleButton key={mode} value={mode} aria-label={label}>
+            <Tooltip title={label}>
+              <Icon sx={{ fontSize: 16 }} />
+            </Tooltip>
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+    </Stack>
+  );
+}
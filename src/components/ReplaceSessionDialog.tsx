@@ -0,0 +1,68 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material";
+import type { ActiveSession } from "../utils/activeSession";
+import { formatTime } from "../utils/time";
+
+interface ReplaceSessionDialogProps {
+  /** The unfinished session a new one would replace; null keeps it closed. */
+  session: ActiveSession | null;
+  onResume: () => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+export default function ReplaceSessionDialog({
+  session,
+  onResume,
+  onDiscard,
+  onClose,
+}: ReplaceSessionDialogProps) {
+  return (
+    <Dialog
+      open={session !== null}
+      onClose={onClose}
+      fullWidth
+      maxWidth="xs"
+      slotProps={{
+        paper: {
+          sx: {
+            bgcolor: "rgba(24, 24, 27, 0.95)",
+            border: "1px solid rgba(255, 255, 255, 0.1)",
+            borderRadius: 3,
+            boxShadow: "0 25px 50px -12px rgba(0, 0, 0, 0.8)",
+          },
+        },
+      }}
+    >
+      <DialogTitle sx={{ fontSize: "1.125rem" }}>
+        Unfinished Session
+      </DialogTitle>
+      <DialogContent>
+        {session && (
+          <Typography sx={{ color: "#d4d4d8", fontSize: "0.875rem" }}>
+            You are on question {session.questionIndex + 1} of week{" "}
+            {session.weekData.week}, {formatTime(session.elapsedSeconds)} in.
+            Starting a new session ends that one for good.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: "#a1a1aa" }}>
+          Cancel
+        </Button>
+        <Button onClick={onDiscard} sx={{ color: "#f87171" }}>
+          Discard and Start New
+        </Button>
+        <Button onClick={onResume} variant="contained" sx={{ color: "black" }}>
+          Resume
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Box, Button, CircularProgress, Stack, Typography } from "@mui/material";
+import {
+  getSessionLogs,
+  isAbortError,
+  type SessionLogsResponse,
+} from "../api/interviewApi";
+import type { AnswerTimes } from "../utils/sessionHistory";
+import { FeedbackCard } from "./FeedbackPanel";
+
+interface SessionTranscriptProps {
+  sessionId: string;
+  /** Time spent per answer, when the session was taken in this browser. */
+  answerTimes?: AnswerTimes;
+}
+
+type TranscriptState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "loaded"; logs: SessionLogsResponse };
+
+export default function SessionTranscript({ sessionId, answerTimes = {} }: SessionTranscriptProps) {
+  const [state, setState] = useState<TranscriptState>({ status: "loading" });
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    getSessionLogs(sessionId, { signal: controller.signal })
+      .then((logs) => setState({ status: "loaded", logs }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Failed to load session logs:", error);
+        setState({
+          status: "error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    return () => controller.abort();
+  }, [sessionId, reloadKey]);
+
+  if (state.status === "loading") {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 6 }}>
+        <CircularProgress size={28} sx={{ color: "#10b981" }} />
+      </Box>
+    );
+  }
+
+  if (state.status === "error") {
+    return (
+      <Box sx={{ textAlign: "center", py: 6 }}>
+        <Typography sx={{ color: "#ef4444", fontSize: "0.875rem", mb: 2 }}>
+          {state.message}
+        </Typography>
+        <Button
+          onClick={() => {
+            setState({ status: "loading" });
+            setReloadKey((key) => key + 1);
+          }}
+          sx={{ color: "#a1a1aa", textTransform: "none" }}
+        >
+          Try Again
+        </Button>
+      </Box>
+    );
+  }
+
+  if (state.logs.length === 0) {
+    return (
+      <Typography sx={{ color: "#52525b", fontSize: "0.875rem", py: 6, textAlign: "center" }}>
+        No answers were recorded for this session.
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack spacing={2}>
+      {state.logs.map((entry, i) => (
+        <FeedbackCard
+          key={i}
+          answer={{ ...entry, timeSpentSeconds: answerTimes[entry.questionIndex] }}
+        />
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Typography,
+} from "@mui/material";
+
+interface ShortcutHelpProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: "Space", action: "Hold to record, release to stop" },
+  { keys: "Enter", action: "Submit your answer" },
+  { keys: "R", action: "Replay the question" },
+  { keys: "Esc", action: "Cancel the recording" },
+  { keys: "?", action: "Show or hide these shortcuts" },
+];
+
+export default function ShortcutHelp({ open, onClose }: ShortcutHelpProps) {
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      fullWidth
+      maxWidth="xs"
+      slotProps={{
+        paper: {
+          sx: {
+            bgcolor: "rgba(24, 24, 27, 0.95)",
+            border: "1px solid rgba(255, 255, 255, 0.1)",
+            borderRadius: 3,
+            boxShadow: "0 25px 50px -12px rgba(0, 0, 0, 0.8)",
+          },
+        },
+      }}
+    >
+      <DialogTitle sx={{ fontSize: "1.125rem" }}>
+        Keyboard Shortcuts
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={1.5}>
+          {SHORTCUTS.map(({ keys, action }) => (
+            <Stack
+              key={keys}
+              direction="row"
+              spacing={2}
+              alignItems="center"
+              justifyContent="space-between"
+            >
+              <Typography sx={{ fontSize: "0.875rem", color: "#d4d4d8" }}>
+                {action}
+              </Typography>
+              <Box
+                component="kbd"
+                sx={{
+                  fontFamily: "monospace",
+                  fontSize: "0.75rem",
+                  color: "white",
+                  bgcolor: "#27272a",
+                  border: "1px solid #3f3f46",
+                  borderBottomWidth: 2,
+                  borderRadius: 1,
+                  px: 1,
+                  py: 0.25,
+                  minWidth: 28,
+                  textAlign: "center",
+                }}
+              >
+                {keys}
+              </Box>
+            </Stack>
+          ))}
+        </Stack>
+        <Typography sx={{ color: "#71717a", fontSize: "0.75rem", mt: 2 }}>
+          Shortcuts pause while the interviewer is speaking.
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: "#a1a1aa" }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { Box, ButtonBase, Stack, Typography } from "@mui/material";
+import { CalendarMonth } from "@mui/icons-material";
+import { AVAILABLE_WEEKS } from "../utils/weeks";
+
+interface WeekSelectorProps {
+  value: number;
+  onChange: (week: number) => void;
+  disabled?: boolean;
+}
+
+export default function WeekSelector({
+  value,
+  onChange,
+  disabled = false,
+}: WeekSelectorProps) {
+  return (
+    <Box>
+      <Stack
+        direction="row"
+        spacing={1}
+        alignItems="center"
+        justifyContent="center"
+        sx={{ mb: 2 }}
+      >
+        <CalendarMonth sx={{ fontSize: 16, color: "#71717a" }} />
+        <Typography
+          variant="caption"
+          sx={{
+            color: "#71717a",
+            fontFamily: "monospace",
+            textTransform: "uppercase",
+            letterSpacing: "0.1em",
+          }}
+        >
+          Select Week
+        </Typography>
+      </Stack>
+      <Box
+        role="radiogroup"
+        aria-label="Curriculum week"
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "repeat(4, 1fr)", sm: "repeat(6, 1fr)" },
+          gap: 1,
+          maxWidth: "28rem",
+          mx: "auto",
+        }}
+      >
+        {AVAILABLE_WEEKS.map((week) => {
+          const isSelected = week === value;
+          return (
+            <ButtonBase
+              key={week}
+              role="radio"
+              aria-checked={isSelected}
+              disabled={disabled}
+              onClick={() => onChange(week)}
+              sx={{
+                py: 1,
+                borderRadius: 2,
+                fontFamily: "monospace",
+                fontSize: "0.875rem",
+                color: isSelected ? "#818cf8" : "#a1a1aa",
+                bgcolor: isSelected
+                  ? "rgba(99, 102, 241, 0.15)"
+                  : "rgba(255, 255, 255, 0.05)",
+                border: "1px solid",
+                borderColor: isSelected
+                  ? "rgba(99, 102, 241, 0.5)"
+                  : "rgba(255, 255, 255, 0.05)",
+                transition: "all 0.2s",
+                "&:hover": {
+                  borderColor: "rgba(99, 102, 241, 0.5)",
+                  color: "white",
+                },
+                "&.Mui-disabled": {
+                  opacity: 0.5,
+                },
+              }}
+            >
+              {week.toString().padStart(2, "0")}
+            </ButtonBase>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
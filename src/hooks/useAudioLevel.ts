@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import type { LevelAnalyser } from "../utils/audioAnalysis";
+
+/** RMS below this is treated as silence (roughly -40 dBFS). */
+const SILENCE_RMS = 0.01;
+const SILENCE_WARNING_MS = 4000;
+const SAMPLE_INTERVAL_MS = 100;
+
+export interface AudioLevelOptions {
+  /** Number of recent samples kept in `levels`. */
+  bars?: number;
+  /** How long input must stay silent before `isSilent` is raised. */
+  silenceMs?: number;
+}
+
+export interface AudioLevel {
+  /** Recent input levels in 0–1, oldest first. */
+  levels: number[];
+  /** Latest RMS of the raw signal. */
+  rms: number;
+  /** True once the stream has stayed near silent for `silenceMs`. */
+  isSilent: boolean;
+}
+
+interface LevelSnapshot extends AudioLevel {
+  analyser: LevelAnalyser;
+}
+
+/** Maps RMS onto a 0–1 scale that makes normal speech fill most of a bar. */
+const toLevel = (rms: number) => Math.min(1, Math.sqrt(rms) * 2);
+
+/**
+ * Samples the input level reported by `analyser`. Returns flat levels while
+ * `analyser` is null.
+ */
+export default function useAudioLevel(
+  analyser: LevelAnalyser | null,
+  { bars = 12, silenceMs = SILENCE_WARNING_MS }: AudioLevelOptions = {}
+): AudioLevel {
+  const [snapshot, setSnapshot] = useState<LevelSnapshot | null>(null);
+
+  useEffect(() => {
+    if (!analyser) return;
+
+    let levels: number[] = Array(bars).fill(0);
+    let lastSoundAt = performance.now();
+
+    return analyser.subscribe(SAMPLE_INTERVAL_MS, (rms, now) => {
+      if (rms >= SILENCE_RMS) lastSoundAt = now;
+      levels = [...levels.slice(1), toLevel(rms)];
+      setSnapshot({
+        analyser,
+        levels,
+        rms,
+        isSilent: now - lastSoundAt >= silenceMs,
+      });
+    });
+  }, [analyser, bars, silenceMs]);
+
+  if (!analyser || snapshot?.analyser !== analyser) {
+    return { levels: Array(bars).fill(0), rms: 0, isSilent: false };
+  }
+  return snapshot;
+}
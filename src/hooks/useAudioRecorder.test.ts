@@ -0,0 +1,97 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { installMediaFakes } from "../test/media";
+import useAudioRecorder from "./useAudioRecorder";
+
+describe("useAudioRecorder", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("hands over the recording and releases the microphone", async () => {
+    const media = installMediaFakes();
+    const onStop = vi.fn();
+    const { result } = renderHook(() => useAudioRecorder({ onStop }));
+
+    await act(async () => {
+      expect(await result.current.start()).toBe(true);
+    });
+    expect(result.current.state).toBe("recording");
+    expect(result.current.stream).not.toBeNull();
+
+    act(() => result.current.stop());
+
+    expect(result.current.state).toBe("idle");
+    expect(result.current.stream).toBeNull();
+    expect(await result.current.blob?.text()).toBe("recorded answer");
+    expect(onStop).toHaveBeenCalledWith({
+      blob: result.current.blob,
+      durationSeconds: expect.any(Number),
+    });
+    expect(media.stream.track.stop).toHaveBeenCalled();
+  });
+
+  it("discards a cancelled recording", async () => {
+    const media = installMediaFakes();
+    const onStop = vi.fn();
+    const { result } = renderHook(() => useAudioRecorder({ onStop }));
+
+    await act(() => result.current.start());
+    act(() => result.current.cancel());
+
+    expect(onStop).toHaveBeenCalledWith(null);
+    expect(result.current.blob).toBeNull();
+    expect(media.stream.track.stop).toHaveBeenCalled();
+  });
+
+  it("reports a microphone that cannot be opened", async () => {
+    const media = installMediaFakes();
+    const denied = new DOMException("Permission denied", "NotAllowedError");
+    media.getUserMedia.mockRejectedValue(denied);
+    const onError = vi.fn();
+    const { result } = renderHook(() => useAudioRecorder({ onError }));
+
+    await act(async () => {
+      expect(await result.current.start()).toBe(false);
+    });
+
+    expect(result.current.state).toBe("idle");
+    expect(result.current.error).toBe(denied);
+    expect(onError).toHaveBeenCalledWith(denied);
+  });
+
+  it("leaves paused time out of the duration", async () => {
+    vi.useFakeTimers({
+      toFake: ["setInterval", "clearInterval", "performance"],
+    });
+    installMediaFakes();
+    const onStop = vi.fn();
+    const { result } = renderHook(() => useAudioRecorder({ onStop }));
+
+    await act(() => result.current.start());
+    act(() => vi.advanceTimersByTime(2000));
+    expect(result.current.duration).toBeCloseTo(2, 0);
+
+    act(() => result.current.pause());
+    expect(result.current.state).toBe("paused");
+    act(() => vi.advanceTimersByTime(5000));
+    act(() => result.current.resume());
+    act(() => vi.advanceTimersByTime(1000));
+    act(() => result.current.stop());
+
+    expect(onStop.mock.calls[0][0].durationSeconds).toBeCloseTo(3, 0);
+  });
+
+  it("releases the microphone when unmounted mid-recording", async () => {
+    const media = installMediaFakes();
+    const onStop = vi.fn();
+    const { result, unmount } = renderHook(() => useAudioRecorder({ onStop }));
+
+    await act(() => result.current.start());
+    unmount();
+
+    expect(media.stream.track.stop).toHaveBeenCalled();
+    expect(media.recorders[0].state).toBe("inactive");
+    expect(onStop).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import useAudioLevel from "./useAudioLevel";
+import {
+  createLevelAnalyser,
+  type LevelAnalyser,
+} from "../utils/audioAnalysis";
+import { openMicrophone } from "../utils/audioDevices";
+import {
+  getCaptureConstraints,
+  getRecorderOptions,
+  toRecordingBlob,
+  type AudioCompression,
+} from "../utils/audioFormat";
+
+const DURATION_TICK_MS = 250;
+
+export type AudioRecorderState = "idle" | "starting" | "recording" | "paused";
+
+export interface AudioRecording {
+  blob: Blob;
+  /** Seconds of audio, excluding pauses. */
+  durationSeconds: number;
+}
+
+export interface AudioRecorderOptions {
+  compression?: AudioCompression;
+  /** Emit chunks this often while recording instead of only once stopped. */
+  timesliceMs?: number;
+  onChunk?: (chunk: Blob) => void;
+  /** Receives the finished recording, or null when nothing was captured. */
+  onStop?: (recording: AudioRecording | null) => void;
+  onError?: (error: unknown) => void;
+}
+
+export interface AudioRecorder {
+  state: AudioRecorderState;
+  /** The open microphone while recording or paused. */
+  stream: MediaStream | null;
+  /** Level analyser on `stream`, for anything else that reads its level. */
+  analyser: LevelAnalyser | null;
+  /** Seconds recorded so far, excluding pauses. */
+  duration: number;
+  /** Latest input level in 0–1. */
+  level: number;
+  /** The last finished recording. */
+  blob: Blob | null;
+  /** Why the last start failed, cleared by the next start. */
+  error: unknown;
+  /** Opens the microphone and records; resolves false if that failed. */
+  start: () => Promise<boolean>;
+  stop: () => void;
+  /** Stops without keeping the recording; `onStop` receives null. */
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+}
+
+const releaseTracks = (stream: MediaStream) =>
+  stream.getTracks().forEach((track) => track.stop());
+
+/**
+ * Records the preferred microphone with `MediaRecorder`. The microphone is
+ * released whenever recording ends, including on failure and unmount, so the
+ * browser's recording indicator never outlives the recording.
+ */
+export default function useAudioRecorder(
+  options: AudioRecorderOptions = {}
+): AudioRecorder {
+  const [state, setState] = useState<AudioRecorderState>("idle");
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [analyser, setAnalyser] = useState<LevelAnalyser | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const { levels } = useAudioLevel(state === "recording" ? analyser : null, {
+    bars: 1,
+  });
+
+  const optionsRef = useRef(options);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  /** Bumped to invalidate a start that is still waiting for the microphone. */
+  const attemptRef = useRef(0);
+  const discardRef = useRef(false);
+  /** `resumedAt` is null while the clock is stopped or paused. */
+  const clockRef = useRef<{ recordedMs: number; resumedAt: number | null }>({
+    recordedMs: 0,
+    resumedAt: null,
+  });
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const elapsedSeconds = () => {
+    const { recordedMs, resumedAt } = clockRef.current;
+    return (
+      (recordedMs + (resumedAt === null ? 0 : performance.now() - resumedAt)) /
+      1000
+    );
+  };
+
+  useEffect(() => {
+    if (state !== "recording") return;
+    const interval = setInterval(
+      () => setDuration(elapsedSeconds()),
+      DURATION_TICK_MS
+    );
+    return () => clearInterval(interval);
+  }, [state]);
+
+  useEffect(() => {
+    if (!analyser) return;
+    return () => analyser.close();
+  }, [analyser]);
+
+  useEffect(() => {
+    const attempt = attemptRef;
+    const recorderStore = recorderRef;
+    return () => {
+      attempt.current++;
+      const recorder = recorderStore.current;
+      recorderStore.current = null;
+      if (!recorder) return;
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+      releaseTracks(recorder.stream);
+    };
+  }, []);
+
+  const start = async (): Promise<boolean> => {
+    if (recorderRef.current) return false;
+    const attempt = ++attemptRef.current;
+    const { compression, timesliceMs } = optionsRef.current;
+    discardRef.current = false;
+    setState("starting");
+    setError(null);
+
+    let opened: MediaStream | null = null;
+    let levelAnalyser: LevelAnalyser | null = null;
+    try {
+      const micStream = await openMicrophone(
+        getCaptureConstraints(compression)
+      );
+      opened = micStream;
+      if (attempt !== attemptRef.current) {
+        releaseTracks(micStream);
+        return false;
+      }
+
+      const recorder = new MediaRecorder(
+        micStream,
+        getRecorderOptions(compression)
+      );
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        chunks.push(event.data);
+        optionsRef.current.onChunk?.(event.data);
+      };
+      recorder.onstop = () => {
+        releaseTracks(micStream);
+        recorderRef.current = null;
+        const durationSeconds = elapsedSeconds();
+        clockRef.current = { recordedMs: 0, resumedAt: null };
+        const recording =
+          chunks.length > 0 && !discardRef.current
+            ? { blob: toRecordingBlob(chunks, recorder), durationSeconds }
+            : null;
+        setStream(null);
+        setAnalyser(null);
+        setState("idle");
+        setDuration(durationSeconds);
+        setBlob(recording?.blob ?? null);
+        optionsRef.current.onStop?.(recording);
+      };
+
+      levelAnalyser = createLevelAnalyser(micStream);
+      recorder.start(timesliceMs);
+      recorderRef.current = recorder;
+      clockRef.current = { recordedMs: 0, resumedAt: performance.now() };
+      setDuration(0);
+      setBlob(null);
+      setStream(micStream);
+      setAnalyser(levelAnalyser);
+      setState("recording");
+      return true;
+    } catch (cause) {
+      levelAnalyser?.close();
+      if (opened) releaseTracks(opened);
+      if (attempt !== attemptRef.current) return false;
+      setState("idle");
+      setError(cause);
+      optionsRef.current.onError?.(cause);
+      return false;
+    }
+  };
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      if (recorder.state !== "inactive") recorder.stop();
+    } else {
+      // Abandons a start that is still waiting for the microphone.
+      attemptRef.current++;
+      setState((current) => (current === "starting" ? "idle" : current));
+    }
+  };
+
+  const cancel = () => {
+    discardRef.current = true;
+    stop();
+  };
+
+  const pause = () => {
+    const recorder = recorderRef.current;
+    if (recorder?.state !== "recording") return;
+    recorder.pause();
+    clockRef.current = {
+      recordedMs: elapsedSeconds() * 1000,
+      resumedAt: null,
+    };
+    setDuration(elapsedSeconds());
+    setState("paused");
+  };
+
+  const resume = () => {
+    const recorder = recorderRef.current;
+    if (recorder?.state !== "paused") return;
+    recorder.resume();
+    clockRef.current.resumedAt = performance.now();
+    setState("recording");
+  };
+
+  return {
+    state,
+    stream,
+    analyser,
+    duration,
+    level: levels[0] ?? 0,
+    blob,
+    error,
+    start,
+    stop,
+    cancel,
+    pause,
+    resume,
+  };
+}
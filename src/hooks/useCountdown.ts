@@ -0,0 +1,43 @@
+import { useEffect, useEffectEvent, useState } from "react";
+
+const TICK_MS = 250;
+
+interface CountdownTick {
+  key: object;
+  remaining: number;
+}
+
+/**
+ * Counts down `durationSeconds` while `key` is non-null and calls `onExpire`
+ * once at zero. A new `key` object restarts the countdown, so callers pass
+ * whatever identifies the period being timed (a stream, a state snapshot).
+ *
+ * Returns the seconds remaining, or null when inactive or `durationSeconds`
+ * is not positive.
+ */
+export default function useCountdown(
+  key: object | null,
+  durationSeconds: number,
+  onExpire: () => void
+): number | null {
+  const [tick, setTick] = useState<CountdownTick | null>(null);
+  const handleExpire = useEffectEvent(onExpire);
+
+  useEffect(() => {
+    if (!key || durationSeconds <= 0) return;
+
+    const endsAt = performance.now() + durationSeconds * 1000;
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, (endsAt - performance.now()) / 1000);
+      setTick({ key, remaining });
+      if (remaining === 0) {
+        clearInterval(interval);
+        handleExpire();
+      }
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [key, durationSeconds]);
+
+  if (!key || durationSeconds <= 0) return null;
+  return tick?.key === key ? tick.remaining : durationSeconds;
+}
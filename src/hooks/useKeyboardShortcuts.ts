@@ -0,0 +1,65 @@
+import { useEffect, useEffectEvent } from "react";
+
+/**
+ * Handlers for one key. Returning false leaves the key to the browser, e.g. so
+ * Space still presses a focused button when the shortcut does not apply.
+ */
+export interface KeyBinding {
+  onKeyDown?: (event: KeyboardEvent) => boolean | void;
+  onKeyUp?: (event: KeyboardEvent) => boolean | void;
+}
+
+/** Bindings by `KeyboardEvent.key`, with single characters in lower case. */
+export type KeyBindings = Record<string, KeyBinding>;
+
+const normalizeKey = (key: string) =>
+  key.length === 1 ? key.toLowerCase() : key;
+
+/** Typing into a field never triggers shortcuts. */
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement);
+
+/**
+ * Listens for `bindings` on the whole window while `enabled`. Held keys fire
+ * `onKeyDown` once; combinations with Ctrl, Alt or Meta are left alone.
+ */
+export default function useKeyboardShortcuts(
+  bindings: KeyBindings,
+  enabled = true
+): void {
+  const handleKey = useEffectEvent((event: KeyboardEvent) => {
+    if (
+      event.defaultPrevented ||
+      event.ctrlKey ||
+      event.altKey ||
+      event.metaKey ||
+      isEditable(event.target)
+    ) {
+      return;
+    }
+    const binding = bindings[normalizeKey(event.key)];
+    const handler =
+      event.type === "keydown" ? binding?.onKeyDown : binding?.onKeyUp;
+    if (!handler) return;
+    if (event.repeat) {
+      event.preventDefault();
+      return;
+    }
+    if (handler(event) !== false) event.preventDefault();
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const listener = (event: KeyboardEvent) => handleKey(event);
+    window.addEventListener("keydown", listener);
+    window.addEventListener("keyup", listener);
+    return () => {
+      window.removeEventListener("keydown", listener);
+      window.removeEventListener("keyup", listener);
+    };
+  }, [enabled]);
+}
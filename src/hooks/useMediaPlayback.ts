@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+
+export interface MediaPlayback {
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+}
+
+const IDLE: MediaPlayback = {
+  currentTime: 0,
+  duration: 0,
+  isPlaying: false,
+};
+
+/**
+ * Tracks playback of `element`, updating every animation frame while it plays
+ * so captions can follow individual words.
+ */
+export default function useMediaPlayback(
+  element: HTMLMediaElement | null
+): MediaPlayback {
+  const [playback, setPlayback] = useState<MediaPlayback>(IDLE);
+
+  useEffect(() => {
+    if (!element) return;
+
+    let frame = 0;
+    const read = () =>
+      setPlayback({
+        currentTime: element.currentTime,
+        duration: Number.isFinite(element.duration) ? element.duration : 0,
+        isPlaying: !element.paused && !element.ended,
+      });
+    const follow = () => {
+      read();
+      frame = requestAnimationFrame(follow);
+    };
+    // "playing" fires again after every stall, so restart rather than stack.
+    const start = () => {
+      cancelAnimationFrame(frame);
+      follow();
+    };
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      read();
+    };
+
+    const events = ["loadedmetadata", "seeked", "ratechange", "emptied"];
+    events.forEach((event) => element.addEventListener(event, read));
+    element.addEventListener("playing", start);
+    element.addEventListener("pause", stop);
+    element.addEventListener("ended", stop);
+    return () => {
+      cancelAnimationFrame(frame);
+      events.forEach((event) => element.removeEventListener(event, read));
+      element.removeEventListener("playing", start);
+      element.removeEventListener("pause", stop);
+      element.removeEventListener("ended", stop);
+    };
+  }, [element]);
+
+  return element ? playback : IDLE;
+}
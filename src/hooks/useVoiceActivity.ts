@@ -0,0 +1,62 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import type { LevelAnalyser } from "../utils/audioAnalysis";
+import type { VoiceActivitySettings } from "../utils/voiceActivity";
+
+const SAMPLE_INTERVAL_MS = 100;
+
+interface VoiceActivityOptions extends VoiceActivitySettings {
+  enabled: boolean;
+  /** Called once when speech has been followed by `hangTimeMs` of silence. */
+  onSilence: () => void;
+}
+
+interface CountdownSnapshot {
+  analyser: LevelAnalyser;
+  remainingMs: number | null;
+}
+
+/**
+ * Detects the end of an answer from the levels `analyser` reports. Silence only counts once the
+ * candidate has started speaking, so a slow start is never cut off.
+ *
+ * Returns the time left before `onSilence` fires, or null while the candidate
+ * is speaking or has not started yet.
+ */
+export default function useVoiceActivity(
+  analyser: LevelAnalyser | null,
+  { enabled, silenceThreshold, hangTimeMs, onSilence }: VoiceActivityOptions
+): number | null {
+  const [countdown, setCountdown] = useState<CountdownSnapshot | null>(null);
+  const handleSilence = useEffectEvent(onSilence);
+
+  useEffect(() => {
+    if (!enabled || !analyser) return;
+
+    let heardSpeech = false;
+    let silentSince: number | null = null;
+
+    const stop = analyser.subscribe(SAMPLE_INTERVAL_MS, (rms, now) => {
+      if (rms >= silenceThreshold) {
+        heardSpeech = true;
+        silentSince = null;
+        setCountdown({ analyser, remainingMs: null });
+        return;
+      }
+      if (!heardSpeech) return;
+
+      silentSince ??= now;
+      const remainingMs = hangTimeMs - (now - silentSince);
+      if (remainingMs > 0) {
+        setCountdown({ analyser, remainingMs });
+        return;
+      }
+      stop();
+      setCountdown({ analyser, remainingMs: 0 });
+      handleSilence();
+    });
+    return stop;
+  }, [enabled, analyser, silenceThreshold, hangTimeMs]);
+
+  if (!enabled || !analyser || countdown?.analyser !== analyser) return null;
+  return countdown.remainingMs;
+}
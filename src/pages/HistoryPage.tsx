@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router";
+import {
+  Box,
+  Button,
+  ButtonBase,
+  Card,
+  Chip,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { ArrowBack, ChevronRight, History } from "@mui/icons-material";
+import PageShell from "../components/PageShell";
+import SessionTranscript from "../components/SessionTranscript";
+import {
+  clearSessionHistory,
+  loadSessionHistory,
+} from "../utils/sessionHistory";
+import { formatTime } from "../utils/time";
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <Box sx={{ textAlign: "right" }}>
+    <Typography
+      variant="caption"
+      sx={{
+        color: "#71717a",
+        textTransform: "uppercase",
+        display: "block",
+        fontSize: "0.625rem",
+      }}
+    >
+      {label}
+    </Typography>
+    <Typography
+      sx={{ fontFamily: "monospace", color: "white", fontSize: "0.875rem" }}
+    >
+      {value}
+    </Typography>
+  </Box>
+);
+
+export default function HistoryPage() {
+  const { sessionId } = useParams();
+  const navigate = useNavigate();
+  const [history, setHistory] = useState(loadSessionHistory);
+  const selected = sessionId
+    ? history.find((entry) => entry.sessionId === sessionId) ?? null
+    : null;
+
+  return (
+    <PageShell glow={false} scrollable>
+      <Box
+        sx={{
+          position: "relative",
+          zIndex: 10,
+          maxWidth: "48rem",
+          mx: "auto",
+          p: 3,
+          py: 6,
+        }}
+      >
+        <Stack
+          direction="row"
+          justifyContent="space-between"
+          alignItems="center"
+          sx={{ mb: 4 }}
+        >
+          <Button
+            onClick={() => navigate(sessionId ? "/history" : "/")}
+            startIcon={<ArrowBack />}
+            sx={{
+              color: "#a1a1aa",
+              textTransform: "none",
+              "&:hover": { color: "white" },
+            }}
+          >
+            {sessionId ? "All Sessions" : "Back"}
+          </Button>
+          {!sessionId && history.length > 0 && (
+            <Button
+              onClick={() => {
+                clearSessionHistory();
+                setHistory([]);
+              }}
+              sx={{
+                color: "#71717a",
+                fontSize: "0.75rem",
+                textTransform: "none",
+                "&:hover": { color: "#ef4444" },
+              }}
+            >
+              Clear History
+            </Button>
+          )}
+        </Stack>
+
+        {sessionId ? (
+          <>
+            {selected && (
+              <Box sx={{ mb: 4 }}>
+                <Typography
+                  sx={{
+                    fontSize: "0.75rem",
+                    color: "#818cf8",
+                    fontFamily: "monospace",
+                    mb: 0.5,
+                  }}
+                >
+                  Week {selected.weekNumber} •{" "}
+                  {formatDate(selected.completedAt)}
+                </Typography>
+                <Typography
+                  variant="h4"
+                  sx={{ fontWeight: 700, color: "white", mb: 2 }}
+                >
+                  {selected.weekTitle}
+                </Typography>
+                <Stack direction="row" spacing={3}>
+                  <Stat
+                    label="Score"
+                    value={`${Math.round(selected.performanceScore)}%`}
+                  />
+                  <Stat
+                    label="Answered"
+                    value={selected.questionsAnswered.toString()}
+                  />
+                  <Stat
+                    label="Duration"
+                    value={formatTime(selected.durationSeconds)}
+                  />
+                </Stack>
+              </Box>
+            )}
+            <SessionTranscript
+              key={sessionId}
+              sessionId={sessionId}
+              answerTimes={selected?.answerTimes}
+            />
+          </>
+        ) : (
+          <>
+            <Stack
+              direction="row"
+              spacing={1}
+              alignItems="center"
+              sx={{ mb: 3 }}
+            >
+              <History sx={{ fontSize: 20, color: "#818cf8" }} />
+              <Typography variant="h4" sx={{ fontWeight: 700, color: "white" }}>
+                Session History
+              </Typography>
+            </Stack>
+
+            {history.length === 0 ? (
+              <Typography sx={{ color: "#52525b", fontSize: "0.875rem" }}>
+                Completed sessions will be listed here.
+              </Typography>
+            ) : (
+              <Stack spacing={2}>
+                {history.map((entry) => (
+                  <Card
+                    key={entry.sessionId}
+                    sx={{
+                      bgcolor: "rgba(24, 24, 27, 0.6)",
+                      border: "1px solid rgba(255, 255, 255, 0.05)",
+                      borderRadius: 3,
+                      boxShadow: "none",
+                      transition: "border-color 0.2s",
+                      "&:hover": { borderColor: "rgba(99, 102, 241, 0.4)" },
+                    }}
+                  >
+                    <ButtonBase
+                      onClick={() => navigate(`/history/${entry.sessionId}`)}
+                      sx={{
+                        width: "100%",
+                        p: 2,
+                        display: "flex",
+                        justifyContent: "space-between",
+                        alignItems: "center",
+                        gap: 2,
+                        textAlign: "left",
+                      }}
+                    >
+                      <Box sx={{ minWidth: 0 }}>
+                        <Stack
+                          direction="row"
+                          spacing={1}
+                          alignItems="center"
+                          sx={{ mb: 0.5 }}
+                        >
+                          <Chip
+                            label={`Week ${entry.weekNumber}`}
+                            size="small"
+                            sx={{
+                              bgcolor: "rgba(99, 102, 241, 0.1)",
+                              color: "#818cf8",
+                              fontFamily: "monospace",
+                              fontSize: "0.625rem",
+                              height: 20,
+                            }}
+                          />
+                          <Typography
+                            sx={{ color: "#71717a", fontSize: "0.75rem" }}
+                          >
+                            {formatDate(entry.completedAt)}
+                          </Typography>
+                        </Stack>
+                        <Typography
+                          noWrap
+                          sx={{ color: "white", fontSize: "0.875rem" }}
+                        >
+                          {entry.weekTitle}
+                        </Typography>
+                      </Box>
+                      <Stack direction="row" spacing={3} alignItems="center">
+                        <Stat
+                          label="Score"
+                          value={`${Math.round(entry.performanceScore)}%`}
+                        />
+                        <Stat
+                          label="Time"
+                          value={formatTime(entry.durationSeconds)}
+                        />
+                        <ChevronRight sx={{ color: "#52525b" }} />
+                      </Stack>
+                    </ButtonBase>
+                  </Card>
+                ))}
+              </Stack>
+            )}
+          </>
+        )}
+      </Box>
+    </PageShell>
+  );
+}
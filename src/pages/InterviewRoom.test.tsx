@@ -0,0 +1,454 @@
+import { IDBFactory } from "fake-indexeddb";
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { MemoryRouter } from "react-router";
+import { beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import App from "../App";
+import { MOCK_API_BASE_URL, setApiBaseUrl } from "../api/config";
+import {
+  ApiError,
+  createAvatarSession,
+  getSessionLogs,
+  submitAnswer,
+} from "../api/interviewApi";
+import { MockAnswerSocket, resetMockBackend } from "../api/mockBackend";
+import { rooms } from "../test/livekit";
+import { installMediaFakes } from "../test/media";
+import { loadActiveSession } from "../utils/activeSession";
+import { loadQueuedAnswer } from "../utils/answerQueue";
+import { loadSessionHistory } from "../utils/sessionHistory";
+
+vi.mock("livekit-client", () => import("../test/livekit"));
+
+// The mock backend has no avatars, so sessions are faked where a test needs
+// one; uploads go through to it unless a test makes them fail.
+vi.mock("../api/interviewApi", async (importOriginal) => {
+  const api = await importOriginal<typeof import("../api/interviewApi")>();
+  return {
+    ...api,
+    createAvatarSession: vi.fn(),
+    getSessionLogs: vi.fn(api.getSessionLogs),
+    submitAnswer: vi.fn(api.submitAnswer),
+  };
+});
+
+// Every step waits on at least one round trip to the mock backend.
+const STEP = { timeout: 3000 };
+
+function renderApp(path = "/") {
+  return render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  );
+}
+
+/** Resolves once the question has been asked and the mic can be used. */
+async function waitForQuestion(): Promise<string> {
+  const replay = await screen.findByRole(
+    "button",
+    { name: "Replay question" },
+    STEP
+  );
+  await waitFor(() => expect(replay).toBeEnabled(), STEP);
+  return screen.getByRole("heading", { level: 4 }).textContent ?? "";
+}
+
+describe("InterviewRoom", () => {
+  beforeEach(() => {
+    setApiBaseUrl(MOCK_API_BASE_URL);
+  });
+
+  it("runs a session from the landing page through to the results", async () => {
+    const media = installMediaFakes();
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+
+    const asked: string[] = [];
+    for (let answered = 1; answered <= 3; answered++) {
+      asked.push(await waitForQuestion());
+
+      fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+      await screen.findByText("Recording Answer...");
+      fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+
+      if (answered < 3) {
+        await screen.findByText(`Answer Feedback (${answered})`, {}, STEP);
+        // Kept with the session so a reload does not lose it.
+        await waitFor(() =>
+          expect(loadActiveSession()?.answerTimes).toHaveProperty(
+            String(answered - 1)
+          )
+        );
+      }
+    }
+
+    expect(await screen.findByText("Your Performance", {}, STEP)).toBeVisible();
+    expect(
+      Object.keys(loadSessionHistory()[0].answerTimes).map(Number)
+    ).toEqual([0, 1, 2]);
+    expect(asked[0]).toBe("What is a closure, and when have you used one?");
+    expect(new Set(asked).size).toBe(3);
+    expect(media.getUserMedia).toHaveBeenCalledTimes(3);
+    expect(media.recorders.every((r) => r.state === "inactive")).toBe(true);
+    expect(media.stream.track.stop).toHaveBeenCalled();
+  }, 20_000);
+
+  it("streams answers when streaming is enabled", async () => {
+    localStorage.setItem("answerStreaming", "true");
+    installMediaFakes();
+    const send = vi.spyOn(MockAnswerSocket.prototype, "send");
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+    fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+    await screen.findByText("Recording Answer...");
+    fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+
+    expect(
+      await screen.findByText("Answer Feedback (1)", {}, STEP)
+    ).toBeVisible();
+    expect(send).toHaveBeenCalledWith(expect.any(Blob));
+    expect(send).toHaveBeenLastCalledWith(JSON.stringify({ type: "end" }));
+  }, 10_000);
+
+  it("does not upload a streamed answer the server has already scored", async () => {
+    localStorage.setItem("answerStreaming", "true");
+    installMediaFakes();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(submitAnswer).mockClear();
+    const dispatchEvent = MockAnswerSocket.prototype.dispatchEvent;
+    vi.spyOn(MockAnswerSocket.prototype, "dispatchEvent").mockImplementation(
+      function (this: MockAnswerSocket, event) {
+        // The answer is scored, but the socket drops before saying so.
+        if (event instanceof MessageEvent && event.data.includes('"result"')) {
+          this.close();
+          return true;
+        }
+        return dispatchEvent.call(this, event);
+      }
+    );
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    const question = await waitForQuestion();
+    fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+    await screen.findByText("Recording Answer...");
+    fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+
+    expect(
+      await screen.findByText("Answer Feedback (1)", {}, STEP)
+    ).toBeVisible();
+    expect(await waitForQuestion()).not.toBe(question);
+    expect(submitAnswer).not.toHaveBeenCalled();
+  }, 10_000);
+
+  it("starts a hands-free answer once the avatar has finished asking", async () => {
+    const media = installMediaFakes();
+    rooms.length = 0;
+    vi.mocked(createAvatarSession).mockResolvedValue({
+      session_token: "avatar-token",
+      session_id: "avatar-1",
+      livekit_url: "wss://livekit.example",
+      livekit_token: "jwt",
+      room_name: "avatar-room",
+    });
+    renderApp();
+
+    fireEvent.click(screen.getByLabelText("Avatar mode"));
+    fireEvent.click(screen.getByLabelText("Hands-free"));
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+
+    await waitFor(
+      () => expect(rooms[0]?.localParticipant.publishData).toHaveBeenCalled(),
+      STEP
+    );
+    // Still talking, so neither the microphone nor the question is released.
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(media.getUserMedia).not.toHaveBeenCalled();
+    expect(
+      screen.getByRole("button", { name: "Replay question" })
+    ).toBeDisabled();
+
+    act(() => rooms[0].finishSpeaking());
+
+    expect(await screen.findByText("Recording Answer...")).toBeVisible();
+    expect(media.getUserMedia).toHaveBeenCalledTimes(1);
+  }, 10_000);
+
+  it("keeps the feedback shown when the logs cannot be loaded", async () => {
+    const api = await vi.importActual<typeof import("../api/interviewApi")>(
+      "../api/interviewApi"
+    );
+    installMediaFakes();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(getSessionLogs)
+      .mockClear()
+      .mockRejectedValue(new ApiError(500, "Down"));
+    // Without the next question inline, each one is loaded with the logs.
+    vi.mocked(submitAnswer).mockImplementation(async (...args) => ({
+      ...(await api.submitAnswer(...args)),
+      next_question: null,
+    }));
+    onTestFinished(() => {
+      vi.mocked(getSessionLogs).mockReset();
+      vi.mocked(submitAnswer).mockReset();
+    });
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    for (let answered = 1; answered <= 2; answered++) {
+      await waitForQuestion();
+      fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+      await screen.findByText("Recording Answer...");
+      fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+      await screen.findByText(`Answer Feedback (${answered})`, {}, STEP);
+    }
+    await waitForQuestion();
+
+    expect(getSessionLogs).toHaveBeenCalledTimes(3);
+    expect(screen.getByText(/^Question 1 • \d+:\d{2}$/)).toBeVisible();
+    expect(screen.getByText(/^Question 2 • \d+:\d{2}$/)).toBeVisible();
+  }, 20_000);
+
+  it("reads the microphone level through one audio context", async () => {
+    const media = installMediaFakes();
+    renderApp();
+
+    // Hands-free answers show the meter and listen for silence.
+    fireEvent.click(screen.getByLabelText("Hands-free"));
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await screen.findByText("Recording Answer...", {}, STEP);
+    expect(
+      screen.getByRole("meter", { name: "Microphone input level" })
+    ).toBeVisible();
+    expect(media.audioContexts).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+    await screen.findByText("Answer Feedback (1)", {}, STEP);
+    expect(media.audioContexts[0].state).toBe("closed");
+  }, 10_000);
+
+  it("lets the candidate cancel an answer while it uploads", async () => {
+    installMediaFakes();
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    const question = await waitForQuestion();
+    fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+    await screen.findByText("Recording Answer...");
+    fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+    fireEvent.click(await screen.findByRole("button", { name: "Cancel" }));
+
+    expect(await screen.findByText("Tap to Speak")).toBeVisible();
+    expect(screen.getByRole("heading", { level: 4 })).toHaveTextContent(
+      question
+    );
+    expect(screen.queryByText("Answer Feedback (1)")).not.toBeInTheDocument();
+  }, 10_000);
+
+  it("records while Space is held and cancels on Escape", async () => {
+    const media = installMediaFakes();
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+
+    fireEvent.keyDown(window, { key: " " });
+    await screen.findByText("Recording Answer...");
+    // Cancels a recording that is under way; the next test cancels a start.
+    await waitFor(() => expect(media.recorders).toHaveLength(1));
+    fireEvent.keyDown(window, { key: "Escape" });
+    expect(await screen.findByText("Tap to Speak")).toBeVisible();
+
+    fireEvent.keyDown(window, { key: " " });
+    await screen.findByText("Recording Answer...");
+    fireEvent.keyUp(window, { key: " " });
+
+    expect(
+      await screen.findByText("Answer Feedback (1)", {}, STEP)
+    ).toBeVisible();
+    expect(media.recorders).toHaveLength(2);
+  }, 10_000);
+
+  it("cancels on Escape while the microphone is still opening", async () => {
+    const media = installMediaFakes();
+    let grantMicrophone!: () => void;
+    media.getUserMedia.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          grantMicrophone = () =>
+            resolve(media.stream as unknown as MediaStream);
+        })
+    );
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+
+    fireEvent.keyDown(window, { key: " " });
+    await screen.findByText("Recording Answer...");
+    fireEvent.keyDown(window, { key: "Escape" });
+    await act(async () => grantMicrophone());
+
+    expect(await screen.findByText("Tap to Speak")).toBeVisible();
+    expect(media.recorders).toHaveLength(0);
+    expect(media.stream.track.stop).toHaveBeenCalled();
+  }, 10_000);
+
+  it("toggles the shortcut help with ?", async () => {
+    installMediaFakes();
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+
+    fireEvent.keyDown(window, { key: "?" });
+    expect(
+      await screen.findByRole("dialog", { name: "Keyboard Shortcuts" })
+    ).toBeVisible();
+
+    fireEvent.keyDown(window, { key: " " });
+    expect(screen.queryByText("Recording Answer...")).not.toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: "?" });
+    await waitFor(() =>
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument()
+    );
+  }, 10_000);
+
+  it("keeps an answer that could not be submitted", async () => {
+    vi.stubGlobal("indexedDB", new IDBFactory());
+    installMediaFakes();
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+    // The mock backend forgets the session, so the upload is rejected.
+    resetMockBackend();
+    fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+    await screen.findByText("Recording Answer...");
+    fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+
+    expect(
+      await screen.findByText("Answer Not Submitted", {}, STEP)
+    ).toBeVisible();
+    expect(screen.getByText(/Retry to send it again/)).toBeVisible();
+    expect(
+      screen.queryByText(/sent again automatically/)
+    ).not.toBeInTheDocument();
+    const sessionId = loadActiveSession()?.sessionId ?? "";
+    await waitFor(async () =>
+      expect(await loadQueuedAnswer(sessionId)).toMatchObject({
+        questionIndex: 0,
+      })
+    );
+  }, 10_000);
+
+  it("keeps an answer whose upload is cut off by leaving the page", async () => {
+    vi.stubGlobal("indexedDB", new IDBFactory());
+    installMediaFakes();
+    vi.mocked(submitAnswer).mockImplementationOnce(
+      (_sessionId, _audio, options) =>
+        new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener("abort", () =>
+            reject(new DOMException("Aborted", "AbortError"))
+          );
+        })
+    );
+    const { unmount } = renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+    fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+    await screen.findByText("Recording Answer...");
+    fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+    await screen.findByRole("button", { name: "Cancel" });
+    unmount();
+
+    const sessionId = loadActiveSession()?.sessionId ?? "";
+    await waitFor(async () =>
+      expect(await loadQueuedAnswer(sessionId)).toMatchObject({
+        questionIndex: 0,
+      })
+    );
+  }, 10_000);
+
+  it("sends an answer again by itself after a temporary failure", async () => {
+    installMediaFakes();
+    vi.mocked(submitAnswer)
+      .mockClear()
+      .mockRejectedValueOnce(new ApiError(503, "Service unavailable"));
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+    fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+    await screen.findByText("Recording Answer...");
+    fireEvent.click(screen.getByRole("button", { name: "Stop recording" }));
+
+    expect(
+      await screen.findByText(/sent again automatically in 2 seconds/, {}, STEP)
+    ).toBeVisible();
+    expect(
+      await screen.findByText("Answer Feedback (1)", {}, { timeout: 5000 })
+    ).toBeVisible();
+    expect(submitAnswer).toHaveBeenCalledTimes(2);
+  }, 10_000);
+
+  it("explains when the microphone cannot be opened", async () => {
+    const media = installMediaFakes();
+    media.getUserMedia.mockRejectedValue(
+      new DOMException("Permission denied", "NotAllowedError")
+    );
+    renderApp();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: /initialize session/i })
+    );
+    await waitForQuestion();
+    fireEvent.click(screen.getByRole("button", { name: "Start recording" }));
+
+    expect(await screen.findByText("Microphone Unavailable")).toBeVisible();
+  }, 10_000);
+
+  it("does not resume a session started elsewhere", () => {
+    installMediaFakes();
+    renderApp("/interview/unknown-session");
+
+    expect(screen.getByText("Session Not Active")).toBeVisible();
+  });
+});
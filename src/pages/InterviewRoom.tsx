@@ -1,4 +1,5 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useEffectEvent, useReducer, useRef } from "react";
+import { useNavigate, useParams } from "react-router";
 import {
   Box,
   Typography,
@@ -8,7 +9,6 @@ import {
   Chip,
   IconButton,
   LinearProgress,
-  CircularProgress,
 } from "@mui/material";
 import {
   Mic,
@@ -17,1056 +17,983 @@ import {
   MenuBook,
   Layers,
   CheckCircle,
-  ArrowForward,
-  EmojiEvents,
-  AutoAwesome,
   Memory,
+  Keyboard,
 } from "@mui/icons-material";
 import {
-  createInterviewSession,
   getQuestion,
   speakTTS,
   submitAnswer,
   completeSession,
   getSessionResults,
-  type InterviewSessionResponse,
-  type QuestionResponse,
+  getSessionLogs,
+  stopAvatarSession,
+  openAnswerStream,
+  isAbortError,
+  isRetryable,
+  AnswerStreamError,
+  NetworkError,
+  TimeoutError,
+  type AnswerStream,
+  type AvatarSessionResponse,
   type TTSResponse,
+  type WordTiming,
   type SubmitAnswerResponse,
+  type SessionLogsResponse,
   type SessionResultsResponse,
+  type UploadProgress,
 } from "../api/interviewApi";
+import { getApiOrigin } from "../api/config";
+import AnswerReview from "../components/AnswerReview";
+import ApiErrorDialog from "../components/ApiErrorDialog";
+import AudioLevelMeter from "../components/AudioLevelMeter";
+import AvatarVideo, { type AvatarVideoHandle } from "../components/AvatarVideo";
+import ConnectionSettingsDialog from "../components/ConnectionSettingsDialog";
+import useCountdown from "../hooks/useCountdown";
+import useAudioRecorder from "../hooks/useAudioRecorder";
+import useKeyboardShortcuts from "../hooks/useKeyboardShortcuts";
+import useMediaPlayback from "../hooks/useMediaPlayback";
+import useVoiceActivity from "../hooks/useVoiceActivity";
+import FeedbackPanel, {
+  type AnswerFeedback,
+} from "../components/FeedbackPanel";
+import PageShell from "../components/PageShell";
+import QuestionCaption from "../components/QuestionCaption";
+import QuestionPlaybackControls from "../components/QuestionPlaybackControls";
+import ShortcutHelp from "../components/ShortcutHelp";
+import type { ResultsLocationState } from "./ResultsPage";
+import {
+  createInterviewState,
+  interviewReducer,
+  isInterviewLive,
+  type InterviewStatus,
+} from "../state/interviewMachine";
+import {
+  addSessionHistoryEntry,
+  type AnswerTimes,
+} from "../utils/sessionHistory";
+import {
+  estimateWordTimings,
+  loadCaptionSettings,
+  saveCaptionSettings,
+  type CaptionSettings,
+} from "../utils/captions";
+import { formatTime } from "../utils/time";
+import { loadVoiceActivitySettings } from "../utils/voiceActivity";
+import {
+  applyPreferredOutput,
+  describeMicrophoneError,
+} from "../utils/audioDevices";
+import { compressAnswerAudio } from "../utils/audioCompression";
+import {
+  loadQueuedAnswer,
+  queueAnswer,
+  removeQueuedAnswer,
+} from "../utils/answerQueue";
+import {
+  AVATAR_SESSION_TOKEN_KEY,
+  clearActiveSession,
+  loadActiveSession,
+  saveActiveSession,
+  type ActiveSession,
+} from "../utils/activeSession";
+
+interface SpokenQuestion {
+  text: string;
+  wordTimings: WordTiming[] | null;
+}
+
+interface ReviewClip {
+  url: string;
+  durationSeconds: number;
+}
+
+/** How a failed answer will be sent again without the candidate's help. */
+type AnswerResend = { when: "online" } | { when: "backoff"; delayMs: number };
+
+/** How often chunks are handed to the answer stream while recording. */
+const STREAM_TIMESLICE_MS = 1000;
+
+/** First delay before resending a failed answer; doubled on each attempt. */
+const ANSWER_RESEND_DELAY_MS = 2000;
+const MAX_ANSWER_RESENDS = 3;
 
 const INTERVIEWER_IMAGE =
   "https://images.unsplash.com/photo-1573496359142-b8d87734a5a2?q=80&w=1000&auto=format&fit=crop";
 
-const WEEK_NUMBER = 4;
-
-const AudioWaveform = ({ isActive }: { isActive: boolean }) => {
-  const [heights, setHeights] = useState<number[]>([]);
+/** Plays `audio` and resolves once it ends or is paused. */
+const playToEnd = (audio: HTMLAudioElement) =>
+  new Promise<void>((resolve, reject) => {
+    const finish = () => {
+      audio.removeEventListener("ended", finish);
+      audio.removeEventListener("pause", finish);
+      resolve();
+    };
+    audio.addEventListener("ended", finish);
+    audio.addEventListener("pause", finish);
+    audio.play().catch((error) => {
+      audio.removeEventListener("ended", finish);
+      audio.removeEventListener("pause", finish);
+      reject(error);
+    });
+  });
 
-  useEffect(() => {
-    if (isActive) {
-      const interval = setInterval(() => {
-        setHeights(Array.from({ length: 12 }, () => Math.random() * 100));
-      }, 200);
-      return () => clearInterval(interval);
-    } else {
-      setHeights(Array(12).fill(4));
-    }
-  }, [isActive]);
+/** Explains a failure the connection dialog cannot describe on its own. */
+const describeFailure = (cause: unknown): string | undefined => {
+  if (cause instanceof NetworkError || cause instanceof TimeoutError) {
+    return undefined;
+  }
+  return cause instanceof Error ? cause.message : undefined;
+};
 
-  return (
-    <Box
-      sx={{
-        display: "flex",
-        alignItems: "center",
-        justifyContent: "center",
-        gap: 0.5,
-        height: 48,
-        opacity: isActive ? 1 : 0.3,
-        transition: "opacity 0.5s",
-      }}
-    >
-      {Array.from({ length: 12 }).map((_, i) => (
-        <Box
-          key={i}
-          sx={{
-            width: 6,
-            height: isActive ? `${heights[i] || 20}%` : "4px",
-            minHeight: "4px",
-            bgcolor: "#10b981",
-            borderRadius: "9999px",
-            animation: isActive ? "pulse 0.5s ease-in-out infinite" : "none",
-            animationDelay: `${i * 0.05}s`,
-            transition: "height 0.2s ease",
-          }}
-        />
-      ))}
-    </Box>
+/**
+ * Adds the answers the server has logged that are not shown yet, such as those
+ * from before a reload. Cards already shown keep their client-side fields.
+ */
+const mergeLoggedAnswers = (
+  shown: AnswerFeedback[],
+  logs: SessionLogsResponse,
+  answerTimes: AnswerTimes
+): AnswerFeedback[] => {
+  const shownIndexes = new Set(shown.map((answer) => answer.questionIndex));
+  const missing = logs.filter(
+    (entry) => !shownIndexes.has(entry.questionIndex)
   );
+  if (missing.length === 0) return shown;
+  return [
+    ...shown,
+    ...missing.map((entry) => ({
+      questionIndex: entry.questionIndex,
+      question: entry.question,
+      transcript: entry.transcript,
+      score: entry.score,
+      feedback: entry.feedback,
+      timeSpentSeconds: answerTimes[entry.questionIndex],
+    })),
+  ].sort((a, b) => a.questionIndex - b.questionIndex);
 };
 
-const SkillBar = ({
-  label,
-  percentage,
-}: {
-  label: string;
-  percentage: number;
-}) => (
-  <Box sx={{ mb: 2 }}>
-    <Box sx={{ display: "flex", justifyContent: "space-between", mb: 0.5 }}>
-      <Typography variant="caption" sx={{ color: "#71717a", fontWeight: 500 }}>
-        {label}
-      </Typography>
-      <Typography
-        variant="caption"
-        sx={{ color: "#10b981", fontFamily: "monospace" }}
-      >
-        {percentage}%
-      </Typography>
-    </Box>
-    <Box
-      sx={{
-        height: 6,
-        width: "100%",
-        bgcolor: "#27272a",
-        borderRadius: "9999px",
-        overflow: "hidden",
-      }}
-    >
-      <Box
-        sx={{
-          height: "100%",
-          width: `${percentage}%`,
-          background: "linear-gradient(to right, #10b981, #2dd4bf)",
-          borderRadius: "9999px",
-        }}
-      />
-    </Box>
-  </Box>
-);
+/** Tells the candidate what becomes of an answer that could not be sent. */
+const describeAnswerResend = (resend: AnswerResend | null): string => {
+  switch (resend?.when) {
+    case "online":
+      return "Your answer has been kept and is sent again automatically once you are back online.";
+    case "backoff":
+      return `Your answer has been kept and is sent again automatically in ${Math.round(
+        resend.delayMs / 1000
+      )} seconds.`;
+    default:
+      return "Your answer has been kept. Retry to send it again, or discard it to record a new one.";
+  }
+};
 
 export default function InterviewRoom() {
-  const [hasStarted, setHasStarted] = useState(false);
-  const [hasFinished, setHasFinished] = useState(false);
-  const [isListening, setIsListening] = useState(false);
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [timer, setTimer] = useState(0);
-  const [interviewState, setInterviewState] = useState<
-    "idle" | "asking" | "listening" | "processing" | "completing"
-  >("idle");
-
-  const [sessionId, setSessionId] = useState<string | null>(null);
-  const [weekData, setWeekData] = useState<
-    InterviewSessionResponse["week"] | null
-  >(null);
-  const [currentQuestion, setCurrentQuestion] = useState<string>("");
-  const [sessionResults, setSessionResults] =
-    useState<SessionResultsResponse | null>(null);
-  const [apiConnectionError, setApiConnectionError] = useState(false);
-  const [isInitializing, setIsInitializing] = useState(false);
-
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  const { sessionId = "" } = useParams();
+  const navigate = useNavigate();
+  const [session] = useState<ActiveSession | null>(() => {
+    const activeSession = loadActiveSession();
+    return activeSession?.sessionId === sessionId ? activeSession : null;
+  });
+  const weekData = session?.weekData ?? null;
+
+  const [interview, dispatch] = useReducer(
+    interviewReducer,
+    {
+      questionIndex: session?.questionIndex,
+      rerecordsLeft: session?.rerecordsLeft,
+    },
+    createInterviewState
+  );
+  const [timer, setTimer] = useState(session?.elapsedSeconds ?? 0);
+  const [answerFeedback, setAnswerFeedback] = useState<AnswerFeedback[]>([]);
+  const [answerTimes, setAnswerTimes] = useState<AnswerTimes>(
+    () => session?.answerTimes ?? {}
+  );
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(
+    null
+  );
+  const [spokenQuestion, setSpokenQuestion] = useState<SpokenQuestion | null>(
+    null
+  );
+  const [captionSettings, setCaptionSettings] = useState(loadCaptionSettings);
+  const [reviewClip, setReviewClip] = useState<ReviewClip | null>(null);
+  const [liveTranscript, setLiveTranscript] = useState<string | null>(null);
+  /** Share of the answer uploaded so far, or null while it is unknown. */
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [answerResend, setAnswerResend] = useState<AnswerResend | null>(null);
+  const [showConnectionSettings, setShowConnectionSettings] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [apiOrigin, setApiOrigin] = useState(getApiOrigin);
+  const [avatarStatus, setAvatarStatus] = useState<
+    "off" | "connecting" | "connected" | "fallback"
+  >("off");
+
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const questionAskedAtRef = useRef(0);
+  const answerTimeSpentRef = useRef(0);
+  const skipReviewRef = useRef(false);
+  /** Whether the current recording was started by holding Space. */
+  const pushToTalkRef = useRef(false);
+  const pendingAnswerRef = useRef<Blob | null>(null);
+  /** Automatic resends of the current answer so far. */
+  const answerResendsRef = useRef(0);
+  const answerStreamRef = useRef<AnswerStream | null>(null);
+  /**
+   * Set when a stream broke after sending the whole answer, until an answer to
+   * the question is scored.
+   */
+  const answerMaybeScoredRef = useRef(false);
+  const sessionCompletedRef = useRef(false);
+  const avatarVideoRef = useRef<AvatarVideoHandle | null>(null);
+  const avatarSessionRef = useRef<AvatarSessionResponse | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const submitControllerRef = useRef<AbortController | null>(null);
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, "0")}:${secs
-      .toString()
-      .padStart(2, "0")}`;
-  };
+  const audioRecorder = useAudioRecorder({
+    compression: session?.audioCompression,
+    timesliceMs: session?.streamAnswers ? STREAM_TIMESLICE_MS : undefined,
+    onChunk: (chunk) => answerStreamRef.current?.send(chunk),
+    onStop: (recording) => {
+      if (!recording) {
+        answerStreamRef.current?.abort();
+        answerStreamRef.current = null;
+        dispatch({ type: "recordCancel" });
+        return;
+      }
+      pendingAnswerRef.current = recording.blob;
+      answerTimeSpentRef.current =
+        (performance.now() - questionAskedAtRef.current) / 1000;
+      const review = !!session?.reviewAnswers && !skipReviewRef.current;
+      if (review) {
+        setReviewClip({
+          url: URL.createObjectURL(recording.blob),
+          durationSeconds: recording.durationSeconds,
+        });
+      }
+      dispatch({ type: "recordStop", review });
+    },
+    onError: (error) => {
+      console.error("Failed to start recording:", error);
+      dispatch({ type: "error", step: "record", cause: error });
+    },
+  });
+  const micStream = audioRecorder.stream;
+
+  const handsFree = session?.handsFree ?? false;
+  const [voiceActivitySettings] = useState(loadVoiceActivitySettings);
+  const isLive = isInterviewLive(interview);
+  const playback = useMediaPlayback(audioElement);
+  const captionTimings =
+    spokenQuestion?.text === interview.question && playback.duration > 0
+      ? spokenQuestion.wordTimings ??
+        estimateWordTimings(spokenQuestion.text, playback.duration)
+      : null;
+  const isRecording = interview.status === "recording";
+  const isFinishing =
+    interview.status === "completing" ||
+    interview.status === "completed" ||
+    interview.error?.step === "complete";
+  const failedStep = interview.error?.step;
+  const showErrorDialog =
+    failedStep === "load" ||
+    failedStep === "submit" ||
+    failedStep === "complete";
+  const canStartRecording =
+    interview.status === "awaitingAnswer" || failedStep === "record";
+  const canReplay =
+    interview.status === "awaitingAnswer" && !playback.isPlaying;
 
   useEffect(() => {
     let interval: ReturnType<typeof setInterval> | undefined;
-    if (hasStarted && !hasFinished) {
+    if (isLive) {
       interval = setInterval(() => setTimer((t) => t + 1), 1000);
     }
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [hasStarted, hasFinished]);
+  }, [isLive]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const requestOptions = () => ({ signal: abortControllerRef.current?.signal });
+
+  useEffect(() => {
+    const staleToken = sessionStorage.getItem(AVATAR_SESSION_TOKEN_KEY);
+    if (!staleToken) return;
+    sessionStorage.removeItem(AVATAR_SESSION_TOKEN_KEY);
+    stopAvatarSession(
+      { session_token: staleToken },
+      { timeoutMs: 10_000 }
+    ).catch((error) => {
+      console.error("Failed to stop stale avatar session:", error);
+    });
+  }, []);
+
+  useEffect(() => {
+    const answerStream = answerStreamRef;
+    const avatarSessionStore = avatarSessionRef;
+    return () => {
+      answerStream.current?.abort();
+
+      const avatarSession = avatarSessionStore.current;
+      avatarSessionStore.current = null;
+      if (avatarSession) {
+        sessionStorage.removeItem(AVATAR_SESSION_TOKEN_KEY);
+        stopAvatarSession(
+          {
+            session_token: avatarSession.session_token,
+            session_id: avatarSession.session_id,
+          },
+          { timeoutMs: 10_000 }
+        ).catch((error) => {
+          console.error("Failed to stop avatar session:", error);
+        });
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!session || !isLive) return;
+    saveActiveSession({
+      sessionId: session.sessionId,
+      weekData: session.weekData,
+      totalQuestions: session.totalQuestions,
+      questionIndex: interview.questionIndex,
+      elapsedSeconds: timer,
+      avatarMode: session.avatarMode,
+      handsFree: session.handsFree,
+      reviewAnswers: session.reviewAnswers,
+      rerecordsLeft: interview.rerecordsLeft,
+      thinkingTimeSeconds: session.thinkingTimeSeconds,
+      maxAnswerSeconds: session.maxAnswerSeconds,
+      streamAnswers: session.streamAnswers,
+      audioCompression: session.audioCompression,
+      answerTimes,
+    });
+  }, [
+    session,
+    isLive,
+    interview.questionIndex,
+    interview.rerecordsLeft,
+    timer,
+    answerTimes,
+  ]);
+
+  useEffect(() => {
+    audioRef.current = audioElement;
+    if (!audioElement) return;
+    return () => audioElement.pause();
+  }, [audioElement]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    // A new src resets playbackRate to the default, so set both.
+    audio.defaultPlaybackRate = captionSettings.playbackRate;
+    audio.playbackRate = captionSettings.playbackRate;
+  }, [audioElement, captionSettings.playbackRate]);
+
+  useEffect(() => {
+    if (!reviewClip) return;
+    return () => URL.revokeObjectURL(reviewClip.url);
+  }, [reviewClip]);
 
   const playTTSAudio = async (text: string): Promise<void> => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
     try {
-      const ttsResponse: TTSResponse = await speakTTS(text);
-      if (ttsResponse.audio_url) {
-        if (audioRef.current) {
-          audioRef.current.src = ttsResponse.audio_url;
-          await audioRef.current.play();
-        } else {
-          const audio = new Audio(ttsResponse.audio_url);
-          audioRef.current = audio;
-          await audio.play();
-        }
-      } else if (ttsResponse.audio_base64) {
-        const audio = new Audio(
-          `data:audio/mpeg;base64,${ttsResponse.audio_base64}`
-        );
-        audioRef.current = audio;
-        await audio.play();
-      }
+      const ttsResponse: TTSResponse = await speakTTS(text, requestOptions());
+      audio.src =
+        ttsResponse.audio_url ||
+        `data:audio/mpeg;base64,${ttsResponse.audio_base64}`;
+      setSpokenQuestion({
+        text,
+        wordTimings: ttsResponse.word_timings ?? null,
+      });
+      await applyPreferredOutput(audio);
+      await playToEnd(audio);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to play TTS audio:", error);
     }
   };
 
-  const initializeSession = async (): Promise<boolean> => {
-    setIsInitializing(true);
-    setApiConnectionError(false);
+  const speakQuestion = async (
+    text: string,
+    viaAvatar = avatarStatus === "connected"
+  ): Promise<void> => {
+    if (viaAvatar && avatarVideoRef.current?.isConnected) {
+      try {
+        await avatarVideoRef.current.speak(text);
+        return;
+      } catch (error) {
+        console.error("Avatar failed to speak, falling back to TTS:", error);
+      }
+    }
+    await playTTSAudio(text);
+  };
+
+  const replayQuestion = async (): Promise<void> => {
+    const audio = audioRef.current;
+    if (
+      audio &&
+      avatarStatus !== "connected" &&
+      spokenQuestion?.text === interview.question
+    ) {
+      audio.currentTime = 0;
+      try {
+        await playToEnd(audio);
+      } catch (error) {
+        console.error("Failed to replay question:", error);
+      }
+      return;
+    }
+    await speakQuestion(interview.question);
+  };
+
+  const updateCaptionSettings = (settings: CaptionSettings) => {
+    setCaptionSettings(settings);
+    saveCaptionSettings(settings);
+  };
+
+  const stopAvatar = async (): Promise<void> => {
+    const avatarSession = avatarSessionRef.current;
+    avatarSessionRef.current = null;
+    if (!avatarSession) return;
+    sessionStorage.removeItem(AVATAR_SESSION_TOKEN_KEY);
 
     try {
-      const response: InterviewSessionResponse = await createInterviewSession({
-        week_number: WEEK_NUMBER,
-      });
-      setSessionId(response.session_id);
-      setWeekData(response.week);
+      await avatarVideoRef.current?.disconnect();
+    } catch (error) {
+      console.error("Failed to disconnect avatar:", error);
+    }
 
-      const questionResponse: QuestionResponse = await getQuestion(
-        response.session_id,
-        0
+    try {
+      await stopAvatarSession(
+        {
+          session_token: avatarSession.session_token,
+          session_id: avatarSession.session_id,
+        },
+        { timeoutMs: 10_000 }
       );
-      setCurrentQuestion(questionResponse.question_text);
-      setCurrentQuestionIndex(0);
-
-      await playTTSAudio(questionResponse.question_text);
-      setInterviewState("idle");
-      setApiConnectionError(false);
-      return true;
     } catch (error) {
-      console.error("Failed to initialize session:", error);
-      setApiConnectionError(true);
-      return false;
-    } finally {
-      setIsInitializing(false);
+      console.error("Failed to stop avatar session:", error);
     }
   };
 
-  const toggleMic = async () => {
-    if (interviewState === "asking" || interviewState === "completing") return;
+  const markQuestionAsked = () => {
+    questionAskedAtRef.current = performance.now();
+    dispatch({ type: "questionAsked" });
+  };
 
-    if (!isListening) {
-      setIsListening(true);
-      setInterviewState("listening");
+  // A question that arrives while the avatar connects waits in "asking" until
+  // the avatar, or TTS in its place, has spoken it.
+  const handleAvatarConnected = () => {
+    setAvatarStatus("connected");
+    if (interview.status !== "asking") return;
+    speakQuestion(interview.question, true).then(markQuestionAsked);
+  };
 
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          audio: true,
-        });
-        const recorder = new MediaRecorder(stream);
-        mediaRecorderRef.current = recorder;
-        audioChunksRef.current = [];
-
-        recorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            audioChunksRef.current.push(event.data);
-          }
-        };
-
-        recorder.onstop = async () => {
-          stream.getTracks().forEach((track) => track.stop());
-          if (audioChunksRef.current.length > 0) {
-            const audioBlob = new Blob(audioChunksRef.current, {
-              type: "audio/webm",
-            });
-            await handleUserResponse(audioBlob);
-          }
-        };
-
-        recorder.start();
-      } catch (error) {
-        console.error("Failed to start recording:", error);
-        setIsListening(false);
-        setInterviewState("idle");
+  const handleAvatarError = (error: Error) => {
+    console.warn("Avatar unavailable, falling back to TTS:", error.message);
+    const wasConnecting = avatarStatus === "connecting";
+    setAvatarStatus("fallback");
+    stopAvatar();
+    if (wasConnecting && interview.status === "asking") {
+      playTTSAudio(interview.question).then(markQuestionAsked);
+    }
+  };
+
+  const loadQuestion = async (questionIndex: number): Promise<void> => {
+    if (!session) return;
+
+    try {
+      const [questionResponse, logs, queuedAnswer] = await Promise.all([
+        getQuestion(session.sessionId, questionIndex, requestOptions()),
+        getSessionLogs(session.sessionId, requestOptions()).catch((error) => {
+          if (isAbortError(error)) throw error;
+          console.error("Failed to load session logs:", error);
+          return null;
+        }),
+        loadQueuedAnswer(session.sessionId),
+      ]);
+
+      // Without the logs the cards already shown are still the best we have.
+      if (logs) {
+        setAnswerFeedback((shown) =>
+          mergeLoggedAnswers(shown, logs, answerTimes)
+        );
       }
-    } else {
-      setIsListening(false);
-      setInterviewState("processing");
-
-      if (
-        mediaRecorderRef.current &&
-        mediaRecorderRef.current.state !== "inactive"
-      ) {
-        mediaRecorderRef.current.stop();
+      if (session.avatarMode && avatarStatus === "off") {
+        // The avatar asks the question itself once it has connected.
+        setAvatarStatus("connecting");
+      }
+      dispatch({
+        type: "questionReady",
+        question: questionResponse.question_text,
+        questionIndex: questionResponse.question_index,
+      });
+      if (queuedAnswer?.questionIndex === questionResponse.question_index) {
+        pendingAnswerRef.current = queuedAnswer.audio;
+        answerTimeSpentRef.current = queuedAnswer.timeSpentSeconds;
+        dispatch({ type: "answerRestored" });
+      } else if (queuedAnswer) {
+        // The server moved on, so that answer did reach it after all.
+        removeQueuedAnswer(session.sessionId);
       }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Failed to load question:", error);
+      dispatch({ type: "error", step: "load", cause: error });
     }
   };
 
-  const handleUserResponse = async (audioBlob: Blob) => {
-    if (!sessionId) return;
+  const askQuestion = async (question: string): Promise<void> => {
+    // Asked by handleAvatarConnected or handleAvatarError instead.
+    if (avatarStatus === "connecting") return;
+    await speakQuestion(question);
+    markQuestionAsked();
+  };
+
+  /** Only transient failures are worth sending the same answer again for. */
+  const planAnswerResend = (error: unknown): AnswerResend | null => {
+    if (!isRetryable(error)) return null;
+    if (!navigator.onLine) return { when: "online" };
+    const attempt = answerResendsRef.current++;
+    return attempt < MAX_ANSWER_RESENDS
+      ? { when: "backoff", delayMs: ANSWER_RESEND_DELAY_MS * 2 ** attempt }
+      : null;
+  };
 
-    try {
-      const data: SubmitAnswerResponse = await submitAnswer(
+  /**
+   * Looks the current answer up in the session logs, for when the server may
+   * have scored it without being able to say so. Null when it has not.
+   */
+  const findLoggedAnswer = async (
+    signal: AbortSignal
+  ): Promise<SubmitAnswerResponse | null> => {
+    const questionIndex = interview.questionIndex;
+    const logs = await getSessionLogs(sessionId, { signal });
+    const entry = logs.find((log) => log.questionIndex === questionIndex);
+    if (!entry) return null;
+
+    const isComplete =
+      session?.totalQuestions !== undefined &&
+      questionIndex + 1 >= session.totalQuestions;
+    return {
+      transcript: entry.transcript,
+      score: entry.score,
+      feedback: entry.feedback,
+      current_question: entry.question,
+      // Loaded separately, as when the server leaves it out.
+      next_question: null,
+      question_index: isComplete ? questionIndex : questionIndex + 1,
+      is_complete: isComplete,
+    };
+  };
+
+  const submitRecordedAnswer = async (): Promise<void> => {
+    const audioBlob = pendingAnswerRef.current;
+    if (!session || !audioBlob) return;
+
+    const answerStream = answerStreamRef.current;
+    answerStreamRef.current = null;
+    const controller = new AbortController();
+    submitControllerRef.current = controller;
+    const pageSignal = abortControllerRef.current?.signal;
+    const submitOptions = {
+      signal: pageSignal
+        ? AbortSignal.any([pageSignal, controller.signal])
+        : controller.signal,
+      onUploadProgress: ({ loaded, total }: UploadProgress) =>
+        setUploadProgress(loaded / total),
+    };
+    const uploadAnswer = async () => {
+      // Uploading an answer the server already has would score it twice.
+      if (answerMaybeScoredRef.current) {
+        const logged = await findLoggedAnswer(submitOptions.signal);
+        if (logged) return logged;
+      }
+      return submitAnswer(
         sessionId,
-        audioBlob
+        await compressAnswerAudio(audioBlob, session.audioCompression),
+        submitOptions
       );
+    };
+    setUploadProgress(null);
+
+    try {
+      const data: SubmitAnswerResponse = answerStream
+        ? await answerStream.finish(submitOptions).catch((error) => {
+            answerMaybeScoredRef.current =
+              error instanceof TimeoutError ||
+              (error instanceof AnswerStreamError && error.endSent);
+            if (!(error instanceof AnswerStreamError)) throw error;
+            console.warn("Answer stream failed, uploading instead:", error);
+            return uploadAnswer();
+          })
+        : await uploadAnswer();
+      pendingAnswerRef.current = null;
+      answerMaybeScoredRef.current = false;
+      answerResendsRef.current = 0;
+      setLiveTranscript(null);
+      removeQueuedAnswer(sessionId);
+
+      setAnswerTimes((times) => ({
+        ...times,
+        [interview.questionIndex]: answerTimeSpentRef.current,
+      }));
+      setAnswerFeedback((prev) => [
+        ...prev,
+        {
+          questionIndex: interview.questionIndex,
+          question: data.current_question || interview.question,
+          transcript: data.transcript,
+          score: data.score,
+          feedback: data.feedback,
+          timeSpentSeconds: answerTimeSpentRef.current,
+        },
+      ]);
 
       if (data.is_complete) {
-        setInterviewState("completing");
-        setTimeout(async () => {
-          await completeSession(sessionId);
-          const results: SessionResultsResponse = await getSessionResults(
-            sessionId
-          );
-          setSessionResults(results);
-          setHasFinished(true);
-        }, 2500);
-      } else if (data.next_question) {
-        setCurrentQuestion(data.next_question);
-        setCurrentQuestionIndex(data.question_index);
-        setInterviewState("asking");
-
-        await playTTSAudio(data.next_question);
-
-        setTimeout(() => {
-          setInterviewState("idle");
-        }, 1000);
+        clearActiveSession();
+        stopAvatar();
       }
+      dispatch({
+        type: "answerScored",
+        isComplete: data.is_complete,
+        nextQuestion: data.next_question,
+        questionIndex: data.question_index,
+      });
     } catch (error) {
+      // Only the candidate's Cancel drops the answer; leaving the page keeps it.
+      if (controller.signal.aborted) return;
+      queueAnswer({
+        sessionId,
+        questionIndex: interview.questionIndex,
+        audio: audioBlob,
+        timeSpentSeconds: answerTimeSpentRef.current,
+        queuedAt: Date.now(),
+      });
+      if (isAbortError(error)) return;
       console.error("Failed to submit answer:", error);
-      setInterviewState("idle");
+      setAnswerResend(planAnswerResend(error));
+      dispatch({ type: "error", step: "submit", cause: error });
     }
   };
 
-  const resetInterview = () => {
-    setHasStarted(false);
-    setHasFinished(false);
-    setCurrentQuestionIndex(0);
-    setTimer(0);
-    setInterviewState("idle");
-    setSessionId(null);
-    setWeekData(null);
-    setCurrentQuestion("");
-    setSessionResults(null);
-    setApiConnectionError(false);
-    setIsInitializing(false);
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current = null;
+  const finishSession = async (): Promise<void> => {
+    if (!session) return;
+
+    try {
+      if (!sessionCompletedRef.current) {
+        await completeSession(sessionId, requestOptions());
+        sessionCompletedRef.current = true;
+      }
+      const results: SessionResultsResponse = await getSessionResults(
+        sessionId,
+        requestOptions()
+      );
+      addSessionHistoryEntry({
+        sessionId,
+        weekNumber: session.weekData.week,
+        weekTitle: session.weekData.title,
+        completedAt: new Date().toISOString(),
+        performanceScore: results.performance_score,
+        averageScore: results.average_score,
+        questionsAnswered: results.questions_answered,
+        totalQuestions: session.totalQuestions,
+        durationSeconds: results.time_elapsed_sec,
+        answerTimes,
+      });
+      dispatch({ type: "completed" });
+      navigate(`/results/${sessionId}`, {
+        replace: true,
+        state: {
+          results,
+          weekData: session.weekData,
+          totalQuestions: session.totalQuestions,
+        } satisfies ResultsLocationState,
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Failed to complete session:", error);
+      dispatch({ type: "error", step: "complete", cause: error });
     }
   };
 
-  if (!hasStarted) {
-    return (
-      <Box
-        sx={{
-          minHeight: "100vh",
-          bgcolor: "#09090b",
-          color: "white",
-          overflow: "hidden",
-          position: "relative",
-        }}
-      >
-        <Box
-          sx={{
-            position: "fixed",
-            inset: 0,
-            zIndex: 0,
-            pointerEvents: "none",
-            backgroundImage: `
-              linear-gradient(to right, rgba(128,128,128,0.07) 1px, transparent 1px),
-              linear-gradient(to bottom, rgba(128,128,128,0.07) 1px, transparent 1px)
-            `,
-            backgroundSize: "24px 24px",
-            "&::before": {
-              content: '""',
-              position: "absolute",
-              top: 0,
-              left: 0,
-              right: 0,
-              height: "500px",
-              background:
-                "linear-gradient(to bottom, rgba(79, 70, 229, 0.2), transparent)",
-              filter: "blur(100px)",
-            },
-          }}
-        />
+  const startRecording = async () => {
+    if (!canStartRecording) return;
 
-        {apiConnectionError && (
-          <Box
-            sx={{
-              position: "fixed",
-              inset: 0,
-              zIndex: 100,
-              bgcolor: "rgba(0, 0, 0, 0.85)",
-              backdropFilter: "blur(8px)",
-              display: "flex",
-              flexDirection: "column",
-              alignItems: "center",
-              justifyContent: "center",
-              p: 3,
-            }}
-          >
-            <Card
-              sx={{
-                maxWidth: "32rem",
-                width: "100%",
-                bgcolor: "rgba(24, 24, 27, 0.95)",
-                backdropFilter: "blur(24px)",
-                border: "1px solid rgba(239, 68, 68, 0.3)",
-                borderRadius: 4,
-                p: 4,
-                textAlign: "center",
-              }}
-            >
-              <Box
-                sx={{
-                  width: 64,
-                  height: 64,
-                  borderRadius: "50%",
-                  bgcolor: "rgba(239, 68, 68, 0.2)",
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  mx: "auto",
-                  mb: 3,
-                }}
-              >
-                <Box
-                  sx={{
-                    width: 32,
-                    height: 32,
-                    borderRadius: "50%",
-                    border: "3px solid #ef4444",
-                    borderTopColor: "transparent",
-                    animation: "spin 1s linear infinite",
-                  }}
-                />
-              </Box>
-              <Typography
-                variant="h5"
-                sx={{
-                  fontWeight: 700,
-                  color: "white",
-                  mb: 2,
-                }}
-              >
-                API Not Reachable
-              </Typography>
-              <Typography
-                sx={{
-                  color: "#a1a1aa",
-                  fontSize: "0.875rem",
-                  mb: 4,
-                  lineHeight: 1.75,
-                }}
-              >
-                Unable to connect to the server at{" "}
-                <Box
-                  component="span"
-                  sx={{
-                    fontFamily: "monospace",
-                    color: "#ef4444",
-                    bgcolor: "rgba(239, 68, 68, 0.1)",
-                    px: 1,
-                    py: 0.5,
-                    borderRadius: 1,
-                  }}
-                >
-                  https://virtual-reviewer-backend.onrender.com
-                </Box>
-                . Please check if the backend server is running and try again.
-              </Typography>
-              <Stack direction="row" spacing={2} justifyContent="center">
-                <Button
-                  onClick={() => {
-                    setApiConnectionError(false);
-                    initializeSession();
-                  }}
-                  variant="contained"
-                  sx={{
-                    bgcolor: "#10b981",
-                    color: "black",
-                    fontWeight: 600,
-                    px: 3,
-                    py: 1.5,
-                    borderRadius: 2,
-                    textTransform: "none",
-                    "&:hover": {
-                      bgcolor: "#059669",
-                    },
-                  }}
-                >
-                  Try Again
-                </Button>
-                <Button
-                  onClick={() => setApiConnectionError(false)}
-                  variant="outlined"
-                  sx={{
-                    borderColor: "rgba(255, 255, 255, 0.2)",
-                    color: "white",
-                    fontWeight: 600,
-                    px: 3,
-                    py: 1.5,
-                    borderRadius: 2,
-                    textTransform: "none",
-                    "&:hover": {
-                      borderColor: "rgba(255, 255, 255, 0.4)",
-                      bgcolor: "rgba(255, 255, 255, 0.05)",
-                    },
-                  }}
-                >
-                  Cancel
-                </Button>
-              </Stack>
-            </Card>
-          </Box>
-        )}
+    dispatch({ type: "recordStart" });
+    skipReviewRef.current = false;
+    if (!(await audioRecorder.start())) {
+      // Stopped before the microphone opened; failures are reported on error.
+      dispatch({ type: "recordCancel" });
+      return;
+    }
+    answerStreamRef.current?.abort();
+    answerStreamRef.current = session?.streamAnswers
+      ? openAnswerStream(sessionId, { onPartialTranscript: setLiveTranscript })
+      : null;
+    setLiveTranscript(null);
+  };
 
-        <Box
-          sx={{
-            position: "relative",
-            zIndex: 10,
-            height: "100vh",
-            display: "flex",
-            flexDirection: "column",
-            alignItems: "center",
-            justifyContent: "center",
-            p: 3,
-            opacity: apiConnectionError ? 0.3 : 1,
-            transition: "opacity 0.3s",
-            pointerEvents: apiConnectionError ? "none" : "auto",
-          }}
-        >
-          <Box sx={{ maxWidth: "42rem", width: "100%" }}>
-            <Box sx={{ textAlign: "center", mb: 6 }}>
-              <Chip
-                label={`Technical Mentor • Week ${WEEK_NUMBER}`}
-                sx={{
-                  bgcolor: "rgba(99, 102, 241, 0.1)",
-                  border: "1px solid rgba(99, 102, 241, 0.2)",
-                  color: "#818cf8",
-                  fontSize: "0.75rem",
-                  fontFamily: "monospace",
-                  textTransform: "uppercase",
-                  letterSpacing: "0.1em",
-                  mb: 3,
-                  height: 28,
-                }}
-              />
-              <Typography
-                variant="h1"
-                sx={{
-                  fontSize: { xs: "3rem", md: "3.75rem" },
-                  fontWeight: 700,
-                  letterSpacing: "-0.025em",
-                  color: "white",
-                  mb: 3,
-                }}
-              >
-                Python Programming
-              </Typography>
-              <Typography
-                variant="body1"
-                sx={{
-                  color: "#a1a1aa",
-                  fontSize: { xs: "1.125rem", md: "1.25rem" },
-                  maxWidth: "36rem",
-                  mx: "auto",
-                  lineHeight: 1.75,
-                }}
-              >
-                Focus on python fundamentals and magic methods.
-              </Typography>
-            </Box>
-            {/* 
-            <Card
-              sx={{
-                bgcolor: "rgba(24, 24, 27, 0.5)",
-                backdropFilter: "blur(24px)",
-                border: "1px solid rgba(255, 255, 255, 0.05)",
-                borderRadius: 4,
-                p: 4,
-                mb: 6,
-              }}
-            >
-              <Stack
-                direction="row"
-                spacing={1}
-                alignItems="center"
-                sx={{ mb: 3 }}
-              >
-                <Layers sx={{ fontSize: 16 }} />
-                <Typography
-                  variant="caption"
-                  sx={{
-                    color: "#71717a",
-                    fontFamily: "monospace",
-                    textTransform: "uppercase",
-                    letterSpacing: "0.1em",
-                  }}
-                >
-                  Session Targets
-                </Typography>
-              </Stack>
-              <Stack
-                direction={{ xs: "column", sm: "row" }}
-                spacing={2}
-                flexWrap="wrap"
-                useFlexGap
-              >
-                {[
-                  "Custom Hooks",
-                  "Context API",
-                  "Performance Optimization",
-                  "Component Composition",
-                ].map((concept, i) => (
-                  <Box
-                    key={i}
-                    sx={{
-                      flex: { xs: "1 1 100%", sm: "1 1 calc(50% - 8px)" },
-                      display: "flex",
-                      alignItems: "center",
-                      gap: 1.5,
-                      p: 1.5,
-                      borderRadius: 2,
-                      bgcolor: "rgba(255, 255, 255, 0.05)",
-                      border: "1px solid rgba(255, 255, 255, 0.05)",
-                    }}
-                  >
-                    <CheckCircle
-                      sx={{ fontSize: 18, color: "rgba(16, 185, 129, 0.5)" }}
-                    />
-                    <Typography sx={{ color: "#e4e4e7", fontWeight: 500 }}>
-                      {concept}
-                    </Typography>
-                  </Box>
-                ))}
-              </Stack>
-            </Card> */}
-
-            <Box sx={{ display: "flex", justifyContent: "center" }}>
-              <Button
-                onClick={async () => {
-                  const success = await initializeSession();
-                  if (success) {
-                    setHasStarted(true);
-                  }
-                }}
-                disabled={isInitializing}
-                variant="contained"
-                endIcon={isInitializing ? undefined : <ArrowForward />}
-                sx={{
-                  px: 4,
-                  py: 2,
-                  bgcolor: "#10b981",
-                  color: "black",
-                  fontWeight: 700,
-                  fontSize: "1.125rem",
-                  borderRadius: "9999px",
-                  textTransform: "none",
-                  boxShadow: "0 0 40px rgba(16, 185, 129, 0.3)",
-                  "&:hover": {
-                    bgcolor: "#059669",
-                    transform: "scale(1.05)",
-                    boxShadow: "0 0 60px rgba(16, 185, 129, 0.5)",
-                  },
-                  "&:disabled": {
-                    bgcolor: "#10b981",
-                    opacity: 0.6,
-                  },
-                  transition: "all 0.3s",
-                }}
-              >
-                {isInitializing ? "Connecting..." : "Initialize Session"}
-              </Button>
-            </Box>
+  /** `skipReview` submits straight away even when answers are reviewed. */
+  const stopRecording = (skipReview = false) => {
+    skipReviewRef.current = skipReview;
+    audioRecorder.stop();
+  };
 
-            <Typography
-              variant="caption"
-              sx={{
-                display: "block",
-                textAlign: "center",
-                color: "#52525b",
-                fontSize: "0.75rem",
-                mt: 4,
-                fontFamily: "monospace",
-              }}
-            >
-              Microphone access required • AI Assessment Engine v2.4
-            </Typography>
-          </Box>
-        </Box>
-      </Box>
-    );
-  }
+  const confirmAnswer = () => {
+    setReviewClip(null);
+    dispatch({ type: "answerConfirmed" });
+  };
 
-  if (hasFinished && sessionResults) {
-    return (
-      <Box
-        sx={{
-          minHeight: "100vh",
-          bgcolor: "#09090b",
-          color: "white",
-          overflowY: "auto",
-          overflowX: "hidden",
-          position: "relative",
-        }}
-      >
-        <Box
-          sx={{
-            position: "fixed",
-            inset: 0,
-            zIndex: 0,
-            pointerEvents: "none",
-            backgroundImage: `
-              linear-gradient(to right, rgba(128,128,128,0.07) 1px, transparent 1px),
-              linear-gradient(to bottom, rgba(128,128,128,0.07) 1px, transparent 1px)
-            `,
-            backgroundSize: "24px 24px",
-          }}
-        />
+  const rerecordAnswer = () => {
+    setReviewClip(null);
+    pendingAnswerRef.current = null;
+    answerStreamRef.current?.abort();
+    answerStreamRef.current = null;
+    setLiveTranscript(null);
+    dispatch({ type: "rerecord" });
+  };
 
-        <Box
-          sx={{
-            position: "relative",
-            zIndex: 10,
-            minHeight: "100vh",
-            display: "flex",
-            flexDirection: "column",
-            alignItems: "center",
-            justifyContent: "flex-start",
-            p: 3,
-            py: 4,
-          }}
-        >
-          <Card
-            sx={{
-              maxWidth: "56rem",
-              width: "100%",
-              bgcolor: "rgba(24, 24, 27, 0.6)",
-              backdropFilter: "blur(24px)",
-              border: "1px solid rgba(255, 255, 255, 0.1)",
-              borderRadius: 6,
-              overflow: "visible",
-              display: "flex",
-              flexDirection: { xs: "column", md: "row" },
-              my: 2,
-            }}
-          >
-            <Box
-              sx={{
-                width: { xs: "100%", md: "33.333%" },
-                bgcolor: "rgba(255, 255, 255, 0.05)",
-                p: 4,
-                display: "flex",
-                flexDirection: "column",
-                alignItems: "center",
-                justifyContent: "center",
-                borderBottom: {
-                  xs: "1px solid rgba(255, 255, 255, 0.05)",
-                  md: "none",
-                },
-                borderRight: {
-                  xs: "none",
-                  md: "1px solid rgba(255, 255, 255, 0.05)",
-                },
-                position: "relative",
-                overflow: "hidden",
-                "&::before": {
-                  content: '""',
-                  position: "absolute",
-                  inset: 0,
-                  background:
-                    "linear-gradient(to bottom right, rgba(99, 102, 241, 0.1), transparent)",
-                },
-              }}
-            >
-              <Box
-                sx={{ position: "relative", zIndex: 10, textAlign: "center" }}
-              >
-                <Typography
-                  variant="caption"
-                  sx={{
-                    color: "#a1a1aa",
-                    fontWeight: 500,
-                    mb: 3,
-                    textTransform: "uppercase",
-                    letterSpacing: "0.1em",
-                  }}
-                >
-                  Your Performance
-                </Typography>
+  /** Stops the upload in flight and drops the answer so it can be re-recorded. */
+  const cancelSubmit = () => {
+    submitControllerRef.current?.abort();
+    pendingAnswerRef.current = null;
+    answerResendsRef.current = 0;
+    setLiveTranscript(null);
+    removeQueuedAnswer(sessionId);
+    dispatch({ type: "submitCancel" });
+  };
 
-                <Box
-                  sx={{
-                    position: "relative",
-                    width: 160,
-                    height: 160,
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "center",
-                    mb: 3,
-                    mx: "auto",
-                  }}
-                >
-                  <CircularProgress
-                    variant="determinate"
-                    value={sessionResults.performance_score}
-                    size={160}
-                    thickness={12}
-                    sx={{
-                      position: "absolute",
-                      color: "#27272a",
-                      "& .MuiCircularProgress-circle": {
-                        strokeLinecap: "round",
-                      },
-                    }}
-                  />
-                  <CircularProgress
-                    variant="determinate"
-                    value={sessionResults.performance_score}
-                    size={160}
-                    thickness={12}
-                    sx={{
-                      position: "absolute",
-                      color: "#10b981",
-                      transform: "rotate(-90deg)",
-                      "& .MuiCircularProgress-circle": {
-                        strokeLinecap: "round",
-                      },
-                    }}
-                  />
-                  <Box
-                    sx={{
-                      display: "flex",
-                      flexDirection: "column",
-                      alignItems: "center",
-                    }}
-                  >
-                    <Typography
-                      sx={{
-                        color: "#10b981",
-                        fontSize: "0.875rem",
-                        fontWeight: 500,
-                        mt: 0.5,
-                      }}
-                    >
-                      Strong
-                    </Typography>
-                  </Box>
-                </Box>
+  const toggleMic = () => {
+    if (isRecording) {
+      stopRecording();
+    } else {
+      startRecording();
+    }
+  };
 
-                <Stack
-                  direction="row"
-                  spacing={2}
-                  justifyContent="center"
-                  alignItems="center"
-                >
-                  <Box sx={{ textAlign: "center" }}>
-                    <Typography
-                      variant="caption"
-                      sx={{
-                        color: "#71717a",
-                        textTransform: "uppercase",
-                        mb: 0.5,
-                        display: "block",
-                      }}
-                    >
-                      Time
-                    </Typography>
-                    <Typography
-                      sx={{ fontFamily: "monospace", color: "white" }}
-                    >
-                      {sessionResults.time_elapsed_formatted}
-                    </Typography>
-                  </Box>
-                  <Box
-                    sx={{
-                      width: "1px",
-                      height: 24,
-                      bgcolor: "rgba(255, 255, 255, 0.1)",
-                    }}
-                  />
-                  <Box sx={{ textAlign: "center" }}>
-                    <Typography
-                      variant="caption"
-                      sx={{
-                        color: "#71717a",
-                        textTransform: "uppercase",
-                        mb: 0.5,
-                        display: "block",
-                      }}
-                    >
-                      Complete
-                    </Typography>
-                    <Typography
-                      sx={{ fontFamily: "monospace", color: "#10b981" }}
-                    >
-                      100%
-                    </Typography>
-                  </Box>
-                </Stack>
-              </Box>
-            </Box>
+  const autoSubmitInMs = useVoiceActivity(audioRecorder.analyser, {
+    ...voiceActivitySettings,
+    enabled: handsFree && isRecording,
+    onSilence: () => stopRecording(),
+  });
+
+  const thinkingTimeLeft = useCountdown(
+    interview.status === "awaitingAnswer" ? interview : null,
+    session?.thinkingTimeSeconds ?? 0,
+    startRecording
+  );
+
+  const answerTimeLeft = useCountdown(
+    isRecording ? micStream : null,
+    session?.maxAnswerSeconds ?? 0,
+    () => stopRecording(true)
+  );
 
-            <Box
-              sx={{
-                width: { xs: "100%", md: "66.666%" },
-                p: 4,
-                overflowY: "auto",
-                maxHeight: { xs: "none", md: "calc(100vh - 32px)" },
-              }}
-            >
-              <Stack
-                direction="row"
-                justifyContent="space-between"
-                alignItems="center"
-                sx={{ mb: 3 }}
-              >
-                <Box>
-                  <Typography
-                    variant="h4"
-                    sx={{ fontWeight: 700, color: "white", mb: 0.5 }}
-                  >
-                    Session Analysis
-                  </Typography>
-                  <Typography sx={{ color: "#a1a1aa", fontSize: "0.875rem" }}>
-                    Week {WEEK_NUMBER} • Advanced React Patterns
-                  </Typography>
-                </Box>
-                <Box
-                  sx={{
-                    width: 40,
-                    height: 40,
-                    bgcolor: "rgba(16, 185, 129, 0.2)",
-                    borderRadius: "50%",
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "center",
-                  }}
-                >
-                  <EmojiEvents sx={{ color: "#10b981", fontSize: 20 }} />
-                </Box>
-              </Stack>
+  const onStatusChange = useEffectEvent((status: InterviewStatus) => {
+    switch (status) {
+      case "idle":
+        if (session) dispatch({ type: "start" });
+        break;
+      case "loading":
+        loadQuestion(interview.questionIndex);
+        break;
+      case "asking":
+        askQuestion(interview.question);
+        break;
+      case "awaitingAnswer":
+        if (handsFree) startRecording();
+        break;
+      case "processing":
+        submitRecordedAnswer();
+        break;
+      case "completing":
+        finishSession();
+        break;
+    }
+  });
 
-              <Stack spacing={3} sx={{ pb: 2 }}>
-                <Card
-                  sx={{
-                    bgcolor: "rgba(39, 39, 42, 0.5)",
-                    borderRadius: 3,
-                    p: 2,
-                    border: "1px solid rgba(255, 255, 255, 0.05)",
-                  }}
-                >
-                  <Stack
-                    direction="row"
-                    spacing={1}
-                    alignItems="center"
-                    sx={{ mb: 1 }}
-                  >
-                    <AutoAwesome sx={{ fontSize: 14, color: "#818cf8" }} />
-                    <Typography
-                      variant="caption"
-                      sx={{
-                        fontWeight: 700,
-                        color: "#c7d2fe",
-                        textTransform: "uppercase",
-                        letterSpacing: "0.05em",
-                      }}
-                    >
-                      Mentor Note
-                    </Typography>
-                  </Stack>
-                  <Typography
-                    sx={{
-                      color: "#d4d4d8",
-                      fontSize: "0.875rem",
-                      lineHeight: 1.75,
-                    }}
-                  >
-                    {sessionResults.mentor_feedback}
-                  </Typography>
-                </Card>
+  useEffect(() => {
+    onStatusChange(interview.status);
+  }, [interview.status]);
 
-                {sessionResults.skill_breakdown && (
-                  <Box>
-                    <Typography
-                      variant="caption"
-                      sx={{
-                        fontWeight: 500,
-                        color: "#71717a",
-                        textTransform: "uppercase",
-                        letterSpacing: "0.1em",
-                        mb: 2,
-                        display: "block",
-                      }}
-                    >
-                      Skill Assessment
-                    </Typography>
-                    <Stack
-                      direction={{ xs: "column", sm: "row" }}
-                      spacing={2}
-                      flexWrap="wrap"
-                      useFlexGap
-                    >
-                      {Object.entries(sessionResults.skill_breakdown).map(
-                        ([skill, score]) => (
-                          <Box
-                            key={skill}
-                            sx={{
-                              flex: {
-                                xs: "1 1 100%",
-                                sm: "1 1 calc(50% - 8px)",
-                              },
-                            }}
-                          >
-                            <SkillBar label={skill} percentage={score} />
-                          </Box>
-                        )
-                      )}
-                    </Stack>
-                  </Box>
-                )}
+  const onOnline = useEffectEvent(() => {
+    if (failedStep === "submit" && answerResend?.when === "online") {
+      dispatch({ type: "retry" });
+    }
+  });
 
-                <Box
-                  sx={{ pt: 2, display: "flex", justifyContent: "flex-end" }}
-                >
-                  <Button
-                    onClick={resetInterview}
-                    variant="contained"
-                    endIcon={<ArrowForward />}
-                    sx={{
-                      bgcolor: "white",
-                      color: "black",
-                      fontWeight: 600,
-                      textTransform: "none",
-                      borderRadius: 2,
-                      px: 2.5,
-                      py: 1.25,
-                      "&:hover": {
-                        bgcolor: "#e4e4e7",
-                      },
-                    }}
-                  >
-                    Return to Dashboard
-                  </Button>
-                </Box>
-              </Stack>
-            </Box>
-          </Card>
+  useEffect(() => {
+    const handleOnline = () => onOnline();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, []);
+
+  const resendDelayMs =
+    failedStep === "submit" && answerResend?.when === "backoff"
+      ? answerResend.delayMs
+      : null;
+
+  useEffect(() => {
+    if (resendDelayMs === null) return;
+    const timeout = setTimeout(
+      () => dispatch({ type: "retry" }),
+      resendDelayMs
+    );
+    return () => clearTimeout(timeout);
+  }, [resendDelayMs]);
+
+  // Same guards as the mic button: nothing while the question is being asked,
+  // the session is finishing or another dialog has the focus.
+  const shortcutsEnabled =
+    !!session &&
+    !isFinishing &&
+    interview.status !== "asking" &&
+    !showErrorDialog &&
+    !showConnectionSettings;
+  const toggleShortcuts = {
+    onKeyDown: () => setShowShortcuts((open) => !open),
+  };
+
+  useKeyboardShortcuts(
+    showShortcuts
+      ? { "?": toggleShortcuts }
+      : {
+          " ": {
+            onKeyDown: () => {
+              if (isRecording) return;
+              if (!canStartRecording) return false;
+              pushToTalkRef.current = true;
+              startRecording();
+            },
+            onKeyUp: () => {
+              if (!pushToTalkRef.current) return false;
+              pushToTalkRef.current = false;
+              stopRecording();
+            },
+          },
+          Enter: {
+            onKeyDown: () => {
+              if (isRecording) {
+                stopRecording(true);
+              } else if (interview.status === "reviewing") {
+                confirmAnswer();
+              } else {
+                return false;
+              }
+            },
+          },
+          r: {
+            onKeyDown: () => {
+              if (!canReplay) return false;
+              replayQuestion();
+            },
+          },
+          Escape: {
+            onKeyDown: () => {
+              if (!isRecording) return false;
+              pushToTalkRef.current = false;
+              audioRecorder.cancel();
+            },
+          },
+          "?": toggleShortcuts,
+        },
+    shortcutsEnabled
+  );
+
+  const dismissError = () => {
+    if (failedStep === "submit") {
+      pendingAnswerRef.current = null;
+      answerResendsRef.current = 0;
+      removeQueuedAnswer(sessionId);
+      dispatch({ type: "dismiss" });
+    } else {
+      navigate("/");
+    }
+  };
+
+  if (!session) {
+    return (
+      <PageShell>
+        <Box
+          sx={{
+            position: "relative",
+            zIndex: 10,
+            height: "100vh",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            p: 3,
+            textAlign: "center",
+          }}
+        >
+          <Typography
+            variant="h5"
+            sx={{ fontWeight: 700, color: "white", mb: 2 }}
+          >
+            Session Not Active
+          </Typography>
+          <Typography
+            sx={{
+              color: "#a1a1aa",
+              fontSize: "0.875rem",
+              maxWidth: "28rem",
+              mb: 4,
+              lineHeight: 1.75,
+            }}
+          >
+            This interview is not in progress on this device. It may already be
+            complete, or it was started in another browser.
+          </Typography>
+          <Stack direction="row" spacing={2}>
+            <Button
+              onClick={() => navigate(`/results/${sessionId}`)}
+              sx={{ color: "#10b981", textTransform: "none" }}
+            >
+              View Results
+            </Button>
+            <Button
+              onClick={() => navigate("/")}
+              sx={{ color: "#a1a1aa", textTransform: "none" }}
+            >
+              Return to Dashboard
+            </Button>
+          </Stack>
         </Box>
-      </Box>
+      </PageShell>
     );
   }
 
   return (
-    <Box
-      sx={{
-        minHeight: "100vh",
-        bgcolor: "#09090b",
-        color: "white",
-        overflow: "hidden",
-        position: "relative",
-      }}
-    >
-      <Box
-        sx={{
-          position: "fixed",
-          inset: 0,
-          zIndex: 0,
-          pointerEvents: "none",
-          backgroundImage: `
-            linear-gradient(to right, rgba(128,128,128,0.07) 1px, transparent 1px),
-            linear-gradient(to bottom, rgba(128,128,128,0.07) 1px, transparent 1px)
-          `,
-          backgroundSize: "24px 24px",
-          "&::before": {
-            content: '""',
-            position: "absolute",
-            top: 0,
-            left: 0,
-            right: 0,
-            height: "500px",
-            background:
-              "linear-gradient(to bottom, rgba(79, 70, 229, 0.2), transparent)",
-            filter: "blur(100px)",
-          },
-        }}
+    <PageShell>
+      <ApiErrorDialog
+        open={showErrorDialog}
+        apiOrigin={apiOrigin}
+        title={failedStep === "submit" ? "Answer Not Submitted" : undefined}
+        message={describeFailure(interview.error?.cause)}
+        note={
+          failedStep === "submit"
+            ? describeAnswerResend(answerResend)
+            : undefined
+        }
+        cancelLabel={failedStep === "submit" ? "Discard Answer" : undefined}
+        onRetry={() => dispatch({ type: "retry" })}
+        onCancel={dismissError}
+        onOpenSettings={() => setShowConnectionSettings(true)}
       />
 
-      {interviewState === "completing" && (
+      {(interview.status === "loading" || isFinishing) && (
         <Box
           sx={{
             position: "absolute",
@@ -1103,7 +1030,9 @@ export default function InterviewRoom() {
                 animation: "pulse 2s ease-in-out infinite",
               }}
             >
-              UPLOADING SESSION DATA...
+              {interview.status === "loading"
+                ? "LOADING SESSION..."
+                : "UPLOADING SESSION DATA..."}
             </Typography>
           </Stack>
         </Box>
@@ -1153,10 +1082,9 @@ export default function InterviewRoom() {
                       height: 8,
                       borderRadius: "50%",
                       bgcolor: "#ef4444",
-                      animation:
-                        interviewState !== "completing"
-                          ? "pulse 2s ease-in-out infinite"
-                          : "none",
+                      animation: isLive
+                        ? "pulse 2s ease-in-out infinite"
+                        : "none",
                     }}
                   />
                 }
@@ -1172,6 +1100,8 @@ export default function InterviewRoom() {
                 }}
               />
               <IconButton
+                onClick={() => setShowConnectionSettings(true)}
+                aria-label="Connection settings"
                 sx={{
                   color: "#a1a1aa",
                   "&:hover": {
@@ -1202,10 +1132,10 @@ export default function InterviewRoom() {
                 position: "absolute",
                 inset: 0,
                 background:
-                  interviewState === "asking"
+                  interview.status === "asking"
                     ? "linear-gradient(to top, rgba(99, 102, 241, 0.1), transparent)"
                     : "transparent",
-                opacity: interviewState === "asking" ? 1 : 0,
+                opacity: interview.status === "asking" ? 1 : 0,
                 transition: "opacity 1s",
               }}
             />
@@ -1224,14 +1154,12 @@ export default function InterviewRoom() {
                   position: "absolute",
                   inset: -4,
                   borderRadius: "2rem",
-                  background:
-                    interviewState === "listening"
-                      ? "linear-gradient(to bottom, rgba(16, 185, 129, 0.3), transparent)"
-                      : "transparent",
+                  background: isRecording
+                    ? "linear-gradient(to bottom, rgba(16, 185, 129, 0.3), transparent)"
+                    : "transparent",
                   filter: "blur(4px)",
-                  opacity: interviewState === "listening" ? 0.5 : 0,
-                  transform:
-                    interviewState === "listening" ? "scale(1.05)" : "scale(1)",
+                  opacity: isRecording ? 0.5 : 0,
+                  transform: isRecording ? "scale(1.05)" : "scale(1)",
                   transition: "all 0.7s",
                 }}
               />
@@ -1252,23 +1180,43 @@ export default function InterviewRoom() {
                   },
                 }}
               >
-                <Box
-                  component="img"
-                  src={INTERVIEWER_IMAGE}
-                  alt="Interviewer"
-                  className="avatar-image"
-                  sx={{
-                    width: "100%",
-                    height: "100%",
-                    objectFit: "cover",
-                    transition: "transform 20s ease-linear",
-                  }}
-                />
+                {avatarStatus === "connecting" ||
+                avatarStatus === "connected" ? (
+                  <Box sx={{ position: "absolute", inset: 0 }}>
+                    <AvatarVideo
+                      ref={avatarVideoRef}
+                      embedded
+                      onSessionCreated={(session) => {
+                        avatarSessionRef.current = session;
+                        sessionStorage.setItem(
+                          AVATAR_SESSION_TOKEN_KEY,
+                          session.session_token
+                        );
+                      }}
+                      onConnected={handleAvatarConnected}
+                      onError={handleAvatarError}
+                    />
+                  </Box>
+                ) : (
+                  <Box
+                    component="img"
+                    src={INTERVIEWER_IMAGE}
+                    alt="Interviewer"
+                    className="avatar-image"
+                    sx={{
+                      width: "100%",
+                      height: "100%",
+                      objectFit: "cover",
+                      transition: "transform 20s ease-linear",
+                    }}
+                  />
+                )}
 
                 <Box
                   sx={{
                     position: "absolute",
                     inset: 0,
+                    pointerEvents: "none",
                     background:
                       "linear-gradient(to top, rgba(0, 0, 0, 0.9), rgba(0, 0, 0, 0.2), transparent)",
                   }}
@@ -1293,10 +1241,7 @@ export default function InterviewRoom() {
                         width: 6,
                         height: 6,
                         borderRadius: "50%",
-                        bgcolor:
-                          interviewState === "completing"
-                            ? "#71717a"
-                            : "#10b981",
+                        bgcolor: isFinishing ? "#71717a" : "#10b981",
                         boxShadow: "0 0 8px rgba(52, 211, 153, 0.8)",
                       }}
                     />
@@ -1307,14 +1252,15 @@ export default function InterviewRoom() {
                         letterSpacing: "0.1em",
                         textTransform: "uppercase",
                         fontFamily: "monospace",
-                        color:
-                          interviewState === "completing"
-                            ? "#71717a"
-                            : "#10b981",
+                        color: isFinishing ? "#71717a" : "#10b981",
                       }}
                     >
-                      {interviewState === "completing"
+                      {isFinishing
                         ? "Offline"
+                        : avatarStatus === "connecting"
+                        ? "Connecting Avatar..."
+                        : avatarStatus === "connected"
+                        ? "Avatar Live"
                         : "Mentor Live"}
                     </Typography>
                   </Stack>
@@ -1336,7 +1282,7 @@ export default function InterviewRoom() {
                 </Box>
               </Card>
 
-              {interviewState === "processing" && (
+              {interview.status === "processing" && (
                 <Card
                   sx={{
                     position: "absolute",
@@ -1348,7 +1294,6 @@ export default function InterviewRoom() {
                     p: 1.5,
                     borderRadius: 3,
                     boxShadow: "0 20px 25px -5px rgba(0, 0, 0, 0.5)",
-                    animation: "bounce 1s ease-in-out infinite",
                   }}
                 >
                   <Stack direction="row" spacing={1} alignItems="center">
@@ -1368,9 +1313,43 @@ export default function InterviewRoom() {
                         fontFamily: "monospace",
                       }}
                     >
-                      Processing Input...
+                      {uploadProgress !== null && uploadProgress < 1
+                        ? `Uploading ${Math.round(uploadProgress * 100)}%`
+                        : "Processing Input..."}
                     </Typography>
                   </Stack>
+                  {uploadProgress !== null && uploadProgress < 1 && (
+                    <LinearProgress
+                      variant="determinate"
+                      value={uploadProgress * 100}
+                      aria-label="Upload progress"
+                      sx={{
+                        mt: 1,
+                        height: 4,
+                        borderRadius: "9999px",
+                        bgcolor: "#27272a",
+                        "& .MuiLinearProgress-bar": {
+                          bgcolor: "#6366f1",
+                          borderRadius: "9999px",
+                        },
+                      }}
+                    />
+                  )}
+                  <Button
+                    onClick={cancelSubmit}
+                    size="small"
+                    sx={{
+                      mt: 1,
+                      p: 0,
+                      minWidth: 0,
+                      color: "#a1a1aa",
+                      fontSize: "0.75rem",
+                      textTransform: "none",
+                      "&:hover": { color: "white", bgcolor: "transparent" },
+                    }}
+                  >
+                    Cancel
+                  </Button>
                 </Card>
               )}
             </Box>
@@ -1384,21 +1363,24 @@ export default function InterviewRoom() {
                 textAlign: "center",
                 px: 4,
                 opacity:
-                  interviewState === "idle" || interviewState === "asking"
+                  interview.status === "awaitingAnswer" ||
+                  interview.status === "asking"
                     ? 1
                     : 0.4,
                 transform:
-                  interviewState === "idle" || interviewState === "asking"
+                  interview.status === "awaitingAnswer" ||
+                  interview.status === "asking"
                     ? "translateY(0)"
                     : "translateY(16px)",
                 filter:
-                  interviewState === "idle" || interviewState === "asking"
+                  interview.status === "awaitingAnswer" ||
+                  interview.status === "asking"
                     ? "none"
                     : "blur(4px)",
                 transition: "all 0.7s",
               }}
             >
-              {interviewState !== "completing" && (
+              {!isFinishing && (
                 <Typography
                   variant="h4"
                   sx={{
@@ -1411,9 +1393,25 @@ export default function InterviewRoom() {
                     textShadow: "0 4px 6px rgba(0, 0, 0, 0.5)",
                   }}
                 >
-                  {currentQuestion}
+                  <QuestionCaption
+                    text={interview.question}
+                    mode={captionSettings.mode}
+                    timings={captionTimings}
+                    currentTime={playback.currentTime}
+                    revealing={
+                      playback.isPlaying || interview.status === "asking"
+                    }
+                  />
                 </Typography>
               )}
+              {!isFinishing && interview.question && (
+                <QuestionPlaybackControls
+                  settings={captionSettings}
+                  onChange={updateCaptionSettings}
+                  onReplay={replayQuestion}
+                  canReplay={canReplay}
+                />
+              )}
             </Box>
           </Box>
         </Box>
@@ -1508,18 +1506,24 @@ export default function InterviewRoom() {
                       >
                         {weekData.title}
                       </Typography>
+                      {weekData.description && (
+                        <Typography
+                          sx={{
+                            fontSize: "0.75rem",
+                            color: "#a1a1aa",
+                            mt: 0.5,
+                            lineHeight: 1.5,
+                          }}
+                        >
+                          {weekData.description}
+                        </Typography>
+                      )}
                     </Box>
                     <Layers sx={{ color: "#52525b", fontSize: 18 }} />
                   </Stack>
 
                   <Stack spacing={1} sx={{ mt: 2 }}>
                     {weekData.concepts.map((concept, i) => {
-                      const conceptName =
-                        typeof concept === "string"
-                          ? concept
-                          : concept.name ||
-                            concept.title ||
-                            JSON.stringify(concept);
                       return (
                         <Stack
                           key={i}
@@ -1533,15 +1537,15 @@ export default function InterviewRoom() {
                               height: 16,
                               borderRadius: "50%",
                               border:
-                                i < currentQuestionIndex
+                                i < interview.questionIndex
                                   ? "none"
                                   : "1px solid #3f3f46",
                               bgcolor:
-                                i < currentQuestionIndex
+                                i < interview.questionIndex
                                   ? "rgba(16, 185, 129, 0.2)"
                                   : "transparent",
                               borderColor:
-                                i < currentQuestionIndex
+                                i < interview.questionIndex
                                   ? "rgba(16, 185, 129, 0.5)"
                                   : "#3f3f46",
                               display: "flex",
@@ -1549,7 +1553,7 @@ export default function InterviewRoom() {
                               justifyContent: "center",
                             }}
                           >
-                            {i < currentQuestionIndex && (
+                            {i < interview.questionIndex && (
                               <CheckCircle
                                 sx={{ fontSize: 10, color: "#10b981" }}
                               />
@@ -1559,17 +1563,17 @@ export default function InterviewRoom() {
                             sx={{
                               fontSize: "0.875rem",
                               color:
-                                i < currentQuestionIndex
+                                i < interview.questionIndex
                                   ? "#a1a1aa"
                                   : "#d4d4d8",
                               textDecoration:
-                                i < currentQuestionIndex
+                                i < interview.questionIndex
                                   ? "line-through"
                                   : "none",
                               textDecorationColor: "#52525b",
                             }}
                           >
-                            {conceptName}
+                            {concept.name}
                           </Typography>
                         </Stack>
                       );
@@ -1580,7 +1584,7 @@ export default function InterviewRoom() {
             )}
           </Box>
 
-          <Box sx={{ flex: 1 }} />
+          <FeedbackPanel answers={answerFeedback} />
 
           <Box
             sx={{
@@ -1590,144 +1594,192 @@ export default function InterviewRoom() {
               borderTop: "1px solid rgba(255, 255, 255, 0.05)",
             }}
           >
-            <Stack spacing={4} alignItems="center">
-              <Box
-                sx={{
-                  width: "100%",
-                  height: 32,
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "center",
-                }}
-              >
-                <AudioWaveform isActive={isListening} />
-              </Box>
-
-              <Box sx={{ position: "relative" }}>
+            {interview.status === "reviewing" && reviewClip ? (
+              <AnswerReview
+                clipUrl={reviewClip.url}
+                durationSeconds={reviewClip.durationSeconds}
+                rerecordsLeft={interview.rerecordsLeft}
+                onSubmit={confirmAnswer}
+                onRerecord={rerecordAnswer}
+              />
+            ) : (
+              <Stack spacing={4} alignItems="center">
                 <Box
                   sx={{
-                    position: "absolute",
-                    inset: 0,
-                    bgcolor: "#6366f1",
-                    borderRadius: "50%",
-                    filter: "blur(32px)",
-                    opacity: isListening ? 0.5 : 0.2,
-                    transition: "all 0.5s",
-                    animation: isListening
-                      ? "pulse 2s ease-in-out infinite"
-                      : "none",
-                  }}
-                />
-                <IconButton
-                  onClick={toggleMic}
-                  disabled={interviewState === "completing"}
-                  sx={{
-                    width: 96,
-                    height: 96,
-                    borderRadius: "50%",
-                    border: "2px solid",
-                    bgcolor: isListening ? "#f43f5e" : "#18181b",
-                    borderColor: isListening
-                      ? "#fb7185"
-                      : "rgba(255, 255, 255, 0.1)",
-                    color: "white",
-                    boxShadow: isListening
-                      ? "0 0 30px rgba(244, 63, 94, 0.4)"
-                      : "none",
-                    "&:hover": {
-                      borderColor: isListening ? "#fb7185" : "#6366f1",
-                      boxShadow: isListening
-                        ? "0 0 30px rgba(244, 63, 94, 0.4)"
-                        : "0 0 30px rgba(99, 102, 241, 0.3)",
-                    },
-                    "&:active": {
-                      transform: "scale(0.95)",
-                    },
-                    "&:disabled": {
-                      opacity: 0.5,
-                      cursor: "not-allowed",
-                    },
-                    transition: "all 0.3s",
+                    width: "100%",
+                    minHeight: 32,
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
                   }}
                 >
-                  {isListening ? (
-                    <MicOff sx={{ fontSize: 32 }} />
-                  ) : (
-                    <Mic sx={{ fontSize: 32 }} />
-                  )}
-                </IconButton>
-              </Box>
+                  <AudioLevelMeter analyser={audioRecorder.analyser} />
+                </Box>
 
-              <Box sx={{ textAlign: "center", pb: 2 }}>
-                <Typography
-                  sx={{
-                    color: "#d4d4d8",
-                    fontSize: "0.875rem",
-                    fontWeight: 500,
-                    letterSpacing: "0.05em",
-                  }}
-                >
-                  {isListening ? "Recording Answer..." : "Tap to Speak"}
-                </Typography>
-                <Typography
-                  sx={{
-                    color: "#52525b",
-                    fontSize: "0.75rem",
-                    mt: 0.5,
-                  }}
-                >
-                  {interviewState === "completing"
-                    ? "Finalizing session..."
-                    : isListening
-                    ? "Speak clearly into your microphone"
-                    : "Ready for your input"}
-                </Typography>
-              </Box>
-            </Stack>
+                <Box sx={{ position: "relative" }}>
+                  <Box
+                    sx={{
+                      position: "absolute",
+                      inset: 0,
+                      bgcolor: "#6366f1",
+                      borderRadius: "50%",
+                      filter: "blur(32px)",
+                      opacity: isRecording ? 0.5 : 0.2,
+                      transition: "all 0.5s",
+                      animation: isRecording
+                        ? "pulse 2s ease-in-out infinite"
+                        : "none",
+                    }}
+                  />
+                  <IconButton
+                    onClick={toggleMic}
+                    disabled={isFinishing}
+                    aria-label={
+                      isRecording ? "Stop recording" : "Start recording"
+                    }
+                    sx={{
+                      width: 96,
+                      height: 96,
+                      borderRadius: "50%",
+                      border: "2px solid",
+                      bgcolor: isRecording ? "#f43f5e" : "#18181b",
+                      borderColor: isRecording
+                        ? "#fb7185"
+                        : "rgba(255, 255, 255, 0.1)",
+                      color: "white",
+                      boxShadow: isRecording
+                        ? "0 0 30px rgba(244, 63, 94, 0.4)"
+                        : "none",
+                      "&:hover": {
+                        borderColor: isRecording ? "#fb7185" : "#6366f1",
+                        boxShadow: isRecording
+                          ? "0 0 30px rgba(244, 63, 94, 0.4)"
+                          : "0 0 30px rgba(99, 102, 241, 0.3)",
+                      },
+                      "&:active": {
+                        transform: "scale(0.95)",
+                      },
+                      "&:disabled": {
+                        opacity: 0.5,
+                        cursor: "not-allowed",
+                      },
+                      transition: "all 0.3s",
+                    }}
+                  >
+                    {isRecording ? (
+                      <MicOff sx={{ fontSize: 32 }} />
+                    ) : (
+                      <Mic sx={{ fontSize: 32 }} />
+                    )}
+                  </IconButton>
+                </Box>
+
+                <Box sx={{ textAlign: "center", pb: 2 }}>
+                  <Typography
+                    sx={{
+                      color: "#d4d4d8",
+                      fontSize: "0.875rem",
+                      fontWeight: 500,
+                      letterSpacing: "0.05em",
+                    }}
+                  >
+                    {isRecording
+                      ? "Recording Answer..."
+                      : failedStep === "record"
+                      ? "Microphone Unavailable"
+                      : "Tap to Speak"}
+                  </Typography>
+                  <Typography
+                    sx={{
+                      color: "#52525b",
+                      fontSize: "0.75rem",
+                      mt: 0.5,
+                    }}
+                  >
+                    {isFinishing
+                      ? "Finalizing session..."
+                      : isRecording && autoSubmitInMs !== null
+                      ? `Submitting in ${Math.ceil(
+                          autoSubmitInMs / 1000
+                        )}s, keep talking to continue`
+                      : isRecording
+                      ? "Speak clearly into your microphone"
+                      : failedStep === "record"
+                      ? describeMicrophoneError(interview.error?.cause)
+                      : handsFree
+                      ? "Recording starts after each question"
+                      : "Ready for your input"}
+                  </Typography>
+                  {liveTranscript && (
+                    <Typography
+                      aria-live="polite"
+                      sx={{
+                        color: "#a1a1aa",
+                        fontSize: "0.75rem",
+                        fontStyle: "italic",
+                        mt: 1,
+                        mx: "auto",
+                        maxWidth: "20rem",
+                      }}
+                    >
+                      {liveTranscript}
+                    </Typography>
+                  )}
+                  {(thinkingTimeLeft !== null || answerTimeLeft !== null) && (
+                    <Typography
+                      role="timer"
+                      sx={{
+                        mt: 1,
+                        fontFamily: "monospace",
+                        fontSize: "0.75rem",
+                        color:
+                          answerTimeLeft !== null && answerTimeLeft <= 10
+                            ? "#f43f5e"
+                            : "#f59e0b",
+                      }}
+                    >
+                      {thinkingTimeLeft !== null
+                        ? `Thinking time ${formatTime(
+                            Math.ceil(thinkingTimeLeft)
+                          )}`
+                        : `Answer time left ${formatTime(
+                            Math.ceil(answerTimeLeft ?? 0)
+                          )}`}
+                    </Typography>
+                  )}
+                  <Button
+                    onClick={() => setShowShortcuts(true)}
+                    disabled={!shortcutsEnabled}
+                    startIcon={<Keyboard sx={{ fontSize: 14 }} />}
+                    sx={{
+                      mt: 1.5,
+                      color: "#52525b",
+                      fontSize: "0.75rem",
+                      textTransform: "none",
+                      "&:hover": { color: "#a1a1aa", bgcolor: "transparent" },
+                    }}
+                  >
+                    Hold Space to talk · ? for shortcuts
+                  </Button>
+                </Box>
+              </Stack>
+            )}
           </Box>
         </Box>
       </Box>
 
-      <audio ref={audioRef} style={{ display: "none" }} />
-
-      <style>
-        {`
-          @keyframes pulse {
-            0%, 100% {
-              opacity: 1;
-            }
-            50% {
-              opacity: 0.5;
-            }
-          }
-          @keyframes ping {
-            0% {
-              transform: scale(1);
-              opacity: 1;
-            }
-            75%, 100% {
-              transform: scale(1.5);
-              opacity: 0;
-            }
-          }
-          @keyframes bounce {
-            0%, 100% {
-              transform: translateY(0);
-            }
-            50% {
-              transform: translateY(-10px);
-            }
-          }
-          @keyframes spin {
-            0% {
-              transform: rotate(0deg);
-            }
-            100% {
-              transform: rotate(360deg);
-            }
-          }
-        `}
-      </style>
-    </Box>
+      <audio ref={setAudioElement} style={{ display: "none" }} />
+
+      <ShortcutHelp
+        open={showShortcuts && shortcutsEnabled}
+        onClose={() => setShowShortcuts(false)}
+      />
+
+      <ConnectionSettingsDialog
+        open={showConnectionSettings}
+        onClose={() => setShowConnectionSettings(false)}
+        onSaved={() => setApiOrigin(getApiOrigin())}
+      />
+    </PageShell>
   );
 }
@@ -0,0 +1,83 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import App from "../App";
+import { MOCK_API_BASE_URL, setApiBaseUrl } from "../api/config";
+import { completeSession, createInterviewSession } from "../api/interviewApi";
+import { installMediaFakes } from "../test/media";
+import { loadActiveSession, saveActiveSession } from "../utils/activeSession";
+
+vi.mock("../api/interviewApi", async (importOriginal) => {
+  const api = await importOriginal<typeof import("../api/interviewApi")>();
+  return { ...api, completeSession: vi.fn(api.completeSession) };
+});
+
+// Every step waits on at least one round trip to the mock backend.
+const STEP = { timeout: 3000 };
+
+async function saveUnfinishedSession(): Promise<string> {
+  const session = await createInterviewSession({ week_number: 3 });
+  saveActiveSession({
+    sessionId: session.session_id,
+    weekData: session.week,
+    totalQuestions: session.total_questions,
+    questionIndex: 0,
+    elapsedSeconds: 95,
+    avatarMode: false,
+    handsFree: false,
+    reviewAnswers: false,
+    rerecordsLeft: 0,
+    thinkingTimeSeconds: 0,
+    maxAnswerSeconds: 0,
+    streamAnswers: false,
+    audioCompression: "none",
+    answerTimes: {},
+  });
+  return session.session_id;
+}
+
+function renderLanding() {
+  installMediaFakes();
+  render(
+    <MemoryRouter>
+      <App />
+    </MemoryRouter>
+  );
+  fireEvent.click(screen.getByRole("button", { name: /initialize session/i }));
+}
+
+describe("LandingPage", () => {
+  beforeEach(() => {
+    setApiBaseUrl(MOCK_API_BASE_URL);
+    vi.mocked(completeSession).mockClear();
+  });
+
+  it("asks before replacing an unfinished session", async () => {
+    const sessionId = await saveUnfinishedSession();
+    renderLanding();
+
+    expect(
+      await screen.findByRole("dialog", { name: "Unfinished Session" })
+    ).toHaveTextContent("question 1 of week 3");
+    fireEvent.click(screen.getByRole("button", { name: "Resume" }));
+
+    expect(
+      await screen.findByRole("button", { name: "Replay question" }, STEP)
+    ).toBeVisible();
+    expect(loadActiveSession()?.sessionId).toBe(sessionId);
+    expect(completeSession).not.toHaveBeenCalled();
+  }, 10_000);
+
+  it("ends a discarded session on the backend", async () => {
+    const sessionId = await saveUnfinishedSession();
+    renderLanding();
+
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Discard and Start New" })
+    );
+
+    expect(completeSession).toHaveBeenCalledWith(sessionId, expect.anything());
+    await screen.findByRole("button", { name: "Replay question" }, STEP);
+    expect(loadActiveSession()?.sessionId).not.toBe(sessionId);
+  }, 10_000);
+});
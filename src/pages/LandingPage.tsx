@@ -0,0 +1,472 @@
+import { useState } from "react";
+import { useNavigate } from "react-router";
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  Stack,
+  Chip,
+  FormControlLabel,
+  Switch,
+} from "@mui/material";
+import { ArrowForward, History } from "@mui/icons-material";
+import {
+  completeSession,
+  createInterviewSession,
+  isAbortError,
+  type InterviewSessionResponse,
+} from "../api/interviewApi";
+import {
+  getApiOrigin,
+  getAudioCompression,
+  isAnswerStreamingEnabled,
+} from "../api/config";
+import ApiErrorDialog from "../components/ApiErrorDialog";
+import ConnectionSettingsDialog from "../components/ConnectionSettingsDialog";
+import DeviceCheck from "../components/DeviceCheck";
+import HandsFreeSettings from "../components/HandsFreeSettings";
+import PageShell from "../components/PageShell";
+import ReplaceSessionDialog from "../components/ReplaceSessionDialog";
+import WeekSelector from "../components/WeekSelector";
+import { removeQueuedAnswer } from "../utils/answerQueue";
+import { getQueryParam, setQueryParam } from "../utils/queryParams";
+import { getSessionRules } from "../utils/sessionRules";
+import { formatTime } from "../utils/time";
+import {
+  clearActiveSession,
+  loadActiveSession,
+  saveActiveSession,
+  type ActiveSession,
+} from "../utils/activeSession";
+import {
+  DEFAULT_WEEK,
+  WEEK_QUERY_PARAM,
+  parseWeekNumber,
+} from "../utils/weeks";
+
+const switchLabelSx = {
+  "& .MuiFormControlLabel-label": {
+    color: "#a1a1aa",
+    fontFamily: "monospace",
+    fontSize: "0.875rem",
+  },
+};
+
+export default function LandingPage() {
+  const navigate = useNavigate();
+  const [selectedWeek, setSelectedWeek] = useState<number>(
+    () => parseWeekNumber(getQueryParam(WEEK_QUERY_PARAM)) ?? DEFAULT_WEEK
+  );
+  const [avatarMode, setAvatarMode] = useState(false);
+  const [handsFree, setHandsFree] = useState(false);
+  const [reviewAnswers, setReviewAnswers] = useState(false);
+  const [isInitializing, setIsInitializing] = useState(false);
+  const [apiConnectionError, setApiConnectionError] = useState(false);
+  const [showConnectionSettings, setShowConnectionSettings] = useState(false);
+  const [apiOrigin, setApiOrigin] = useState(getApiOrigin);
+  const [resumableSession, setResumableSession] =
+    useState<ActiveSession | null>(loadActiveSession);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  const selectWeek = (week: number) => {
+    setSelectedWeek(week);
+    setQueryParam(WEEK_QUERY_PARAM, week.toString());
+  };
+
+  const initializeSession = async (): Promise<void> => {
+    setIsInitializing(true);
+    setApiConnectionError(false);
+
+    try {
+      const rules = getSessionRules();
+      const response: InterviewSessionResponse = await createInterviewSession({
+        week_number: selectedWeek,
+      });
+      saveActiveSession({
+        sessionId: response.session_id,
+        weekData: response.week,
+        totalQuestions: response.total_questions,
+        questionIndex: 0,
+        elapsedSeconds: 0,
+        avatarMode,
+        handsFree,
+        reviewAnswers,
+        rerecordsLeft: reviewAnswers ? rules.maxRerecords : 0,
+        thinkingTimeSeconds: rules.thinkingTimeSeconds,
+        maxAnswerSeconds: rules.maxAnswerSeconds,
+        streamAnswers: isAnswerStreamingEnabled(),
+        audioCompression: getAudioCompression(),
+        answerTimes: {},
+      });
+      navigate(`/interview/${response.session_id}`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Failed to initialize session:", error);
+      setApiConnectionError(true);
+    } finally {
+      setIsInitializing(false);
+    }
+  };
+
+  const discardResumableSession = () => {
+    if (!resumableSession) return;
+    const { sessionId } = resumableSession;
+    clearActiveSession();
+    setResumableSession(null);
+    removeQueuedAnswer(sessionId);
+    // Ended on the backend as well, so it is not left open there.
+    completeSession(sessionId, { timeoutMs: 10_000 }).catch((error) => {
+      console.error("Failed to end discarded session:", error);
+    });
+  };
+
+  /** A new session replaces the unfinished one, so ask first. */
+  const startSession = () => {
+    if (resumableSession) {
+      setConfirmReplace(true);
+    } else {
+      initializeSession();
+    }
+  };
+
+  return (
+    <PageShell>
+      <ApiErrorDialog
+        open={apiConnectionError}
+        apiOrigin={apiOrigin}
+        onRetry={() => {
+          setApiConnectionError(false);
+          initializeSession();
+        }}
+        onCancel={() => setApiConnectionError(false)}
+        onOpenSettings={() => setShowConnectionSettings(true)}
+      />
+
+      <ReplaceSessionDialog
+        session={confirmReplace ? resumableSession : null}
+        onResume={() => navigate(`/interview/${resumableSession?.sessionId}`)}
+        onDiscard={() => {
+          setConfirmReplace(false);
+          discardResumableSession();
+          initializeSession();
+        }}
+        onClose={() => setConfirmReplace(false)}
+      />
+
+      <ConnectionSettingsDialog
+        open={showConnectionSettings}
+        onClose={() => setShowConnectionSettings(false)}
+        onSaved={() => setApiOrigin(getApiOrigin())}
+      />
+
+      <Box
+        sx={{
+          position: "relative",
+          zIndex: 10,
+          height: "100vh",
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "center",
+          p: 3,
+          opacity: apiConnectionError ? 0.3 : 1,
+          transition: "opacity 0.3s",
+          pointerEvents: apiConnectionError ? "none" : "auto",
+        }}
+      >
+        <Box sx={{ maxWidth: "42rem", width: "100%" }}>
+          <Box sx={{ textAlign: "center", mb: 6 }}>
+            <Chip
+              label={`Technical Mentor • Week ${selectedWeek}`}
+              sx={{
+                bgcolor: "rgba(99, 102, 241, 0.1)",
+                border: "1px solid rgba(99, 102, 241, 0.2)",
+                color: "#818cf8",
+                fontSize: "0.75rem",
+                fontFamily: "monospace",
+                textTransform: "uppercase",
+                letterSpacing: "0.1em",
+                mb: 3,
+                height: 28,
+              }}
+            />
+            <Typography
+              variant="h1"
+              sx={{
+                fontSize: { xs: "3rem", md: "3.75rem" },
+                fontWeight: 700,
+                letterSpacing: "-0.025em",
+                color: "white",
+                mb: 3,
+              }}
+            >
+              Mock Interview
+            </Typography>
+            <Typography
+              variant="body1"
+              sx={{
+                color: "#a1a1aa",
+                fontSize: { xs: "1.125rem", md: "1.25rem" },
+                maxWidth: "36rem",
+                mx: "auto",
+                lineHeight: 1.75,
+              }}
+            >
+              Pick the curriculum week you want to be assessed on. Topics and
+              questions are loaded for that week when the session starts.
+            </Typography>
+          </Box>
+
+          {resumableSession && (
+            <Card
+              sx={{
+                bgcolor: "rgba(99, 102, 241, 0.08)",
+                border: "1px solid rgba(99, 102, 241, 0.3)",
+                borderRadius: 4,
+                p: 3,
+                mb: 6,
+              }}
+            >
+              <Stack
+                direction={{ xs: "column", sm: "row" }}
+                spacing={2}
+                alignItems={{ xs: "flex-start", sm: "center" }}
+                justifyContent="space-between"
+              >
+                <Stack direction="row" spacing={1.5} alignItems="center">
+                  <History sx={{ color: "#818cf8", fontSize: 20 }} />
+                  <Box>
+                    <Typography
+                      sx={{ color: "white", fontSize: "0.875rem", mb: 0.5 }}
+                    >
+                      Unfinished session found
+                    </Typography>
+                    <Typography
+                      sx={{
+                        color: "#a1a1aa",
+                        fontSize: "0.75rem",
+                        fontFamily: "monospace",
+                      }}
+                    >
+                      Week {resumableSession.weekData.week} • Question{" "}
+                      {resumableSession.questionIndex + 1} •{" "}
+                      {formatTime(resumableSession.elapsedSeconds)} elapsed
+                    </Typography>
+                  </Box>
+                </Stack>
+                <Stack direction="row" spacing={1}>
+                  <Button
+                    onClick={discardResumableSession}
+                    disabled={isInitializing}
+                    sx={{
+                      color: "#a1a1aa",
+                      textTransform: "none",
+                      "&:hover": { color: "white" },
+                    }}
+                  >
+                    Discard
+                  </Button>
+                  <Button
+                    onClick={() =>
+                      navigate(`/interview/${resumableSession.sessionId}`)
+                    }
+                    disabled={isInitializing}
+                    variant="contained"
+                    sx={{
+                      bgcolor: "#6366f1",
+                      color: "white",
+                      fontWeight: 600,
+                      textTransform: "none",
+                      borderRadius: 2,
+                      "&:hover": { bgcolor: "#4f46e5" },
+                    }}
+                  >
+                    Resume Session
+                  </Button>
+                </Stack>
+              </Stack>
+            </Card>
+          )}
+
+          <Box sx={{ mb: 6 }}>
+            <WeekSelector
+              value={selectedWeek}
+              onChange={selectWeek}
+              disabled={isInitializing}
+            />
+          </Box>
+          {/* 
+        <Card
+          sx={{
+            bgcolor: "rgba(24, 24, 27, 0.5)",
+            backdropFilter: "blur(24px)",
+            border: "1px solid rgba(255, 255, 255, 0.05)",
+            borderRadius: 4,
+            p: 4,
+            mb: 6,
+          }}
+        >
+          <Stack
+            direction="row"
+            spacing={1}
+            alignItems="center"
+            sx={{ mb: 3 }}
+          >
+            <Layers sx={{ fontSize: 16 }} />
+            <Typography
+              variant="caption"
+              sx={{
+                color: "#71717a",
+                fontFamily: "monospace",
+                textTransform: "uppercase",
+                letterSpacing: "0.1em",
+              }}
+            >
+              Session Targets
+            </Typography>
+          </Stack>
+          <Stack
+            direction={{ xs: "column", sm: "row" }}
+            spacing={2}
+            flexWrap="wrap"
+            useFlexGap
+          >
+            {[
+              "Custom Hooks",
+              "Context API",
+              "Performance Optimization",
+              "Component Composition",
+            ].map((concept, i) => (
+              <Box
+                key={i}
+                sx={{
+                  flex: { xs: "1 1 100%", sm: "1 1 calc(50% - 8px)" },
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 1.5,
+                  p: 1.5,
+                  borderRadius: 2,
+                  bgcolor: "rgba(255, 255, 255, 0.05)",
+                  border: "1px solid rgba(255, 255, 255, 0.05)",
+                }}
+              >
+                <CheckCircle
+                  sx={{ fontSize: 18, color: "rgba(16, 185, 129, 0.5)" }}
+                />
+                <Typography sx={{ color: "#e4e4e7", fontWeight: 500 }}>
+                  {concept}
+                </Typography>
+              </Box>
+            ))}
+          </Stack>
+        </Card> */}
+
+          <DeviceCheck />
+
+          <Box sx={{ display: "flex", justifyContent: "center", mb: 3 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={avatarMode}
+                  onChange={(e) => setAvatarMode(e.target.checked)}
+                  disabled={isInitializing}
+                  color="primary"
+                />
+              }
+              label="Avatar mode"
+              sx={switchLabelSx}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={handsFree}
+                  onChange={(e) => setHandsFree(e.target.checked)}
+                  disabled={isInitializing}
+                  color="primary"
+                />
+              }
+              label="Hands-free"
+              sx={switchLabelSx}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={reviewAnswers}
+                  onChange={(e) => setReviewAnswers(e.target.checked)}
+                  disabled={isInitializing}
+                  color="primary"
+                />
+              }
+              label="Review answers"
+              sx={switchLabelSx}
+            />
+          </Box>
+
+          {handsFree && <HandsFreeSettings />}
+
+          <Box sx={{ display: "flex", justifyContent: "center" }}>
+            <Button
+              onClick={startSession}
+              disabled={isInitializing}
+              variant="contained"
+              endIcon={isInitializing ? undefined : <ArrowForward />}
+              sx={{
+                px: 4,
+                py: 2,
+                bgcolor: "#10b981",
+                color: "black",
+                fontWeight: 700,
+                fontSize: "1.125rem",
+                borderRadius: "9999px",
+                textTransform: "none",
+                boxShadow: "0 0 40px rgba(16, 185, 129, 0.3)",
+                "&:hover": {
+                  bgcolor: "#059669",
+                  transform: "scale(1.05)",
+                  boxShadow: "0 0 60px rgba(16, 185, 129, 0.5)",
+                },
+                "&:disabled": {
+                  bgcolor: "#10b981",
+                  opacity: 0.6,
+                },
+                transition: "all 0.3s",
+              }}
+            >
+              {isInitializing ? "Connecting..." : "Initialize Session"}
+            </Button>
+          </Box>
+
+          <Typography
+            variant="caption"
+            sx={{
+              display: "block",
+              textAlign: "center",
+              color: "#52525b",
+              fontSize: "0.75rem",
+              mt: 4,
+              fontFamily: "monospace",
+            }}
+          >
+            Microphone access required • AI Assessment Engine v2.4
+          </Typography>
+
+          <Box sx={{ display: "flex", justifyContent: "center", mt: 2 }}>
+            <Button
+              onClick={() => navigate("/history")}
+              startIcon={<History sx={{ fontSize: 16 }} />}
+              sx={{
+                color: "#71717a",
+                fontSize: "0.75rem",
+                textTransform: "none",
+                "&:hover": { color: "white" },
+              }}
+            >
+              Session History
+            </Button>
+          </Box>
+        </Box>
+      </Box>
+    </PageShell>
+  );
+}
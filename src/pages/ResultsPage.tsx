@@ -0,0 +1,615 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router";
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  Stack,
+  CircularProgress,
+} from "@mui/material";
+import {
+  ArrowForward,
+  EmojiEvents,
+  AutoAwesome,
+  Download,
+  Print,
+} from "@mui/icons-material";
+import {
+  getSessionLogs,
+  getSessionResults,
+  isAbortError,
+  type InterviewSessionResponse,
+  type SessionLogEntry,
+  type SessionResultsResponse,
+} from "../api/interviewApi";
+import PageShell from "../components/PageShell";
+import PrintableReport from "../components/PrintableReport";
+import { getCompletionPercent, getScoreTier } from "../utils/scoreTiers";
+import { loadSessionHistory } from "../utils/sessionHistory";
+import {
+  buildSessionReport,
+  downloadSessionReport,
+  type SessionReportWeek,
+} from "../utils/sessionReport";
+
+export type ResultsLocationState = {
+  results: SessionResultsResponse;
+  weekData: InterviewSessionResponse["week"];
+  totalQuestions?: number;
+};
+
+type ResultsState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "loaded"; results: SessionResultsResponse };
+
+type LogsState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "loaded"; entries: SessionLogEntry[] };
+
+const exportButtonSx = {
+  color: "#a1a1aa",
+  textTransform: "none",
+  border: "none",
+  boxShadow: "none",
+  "&:hover": { color: "white", boxShadow: "none", transform: "none" },
+};
+
+const SkillBar = ({
+  label,
+  percentage,
+}: {
+  label: string;
+  percentage: number;
+}) => (
+  <Box sx={{ mb: 2 }}>
+    <Box sx={{ display: "flex", justifyContent: "space-between", mb: 0.5 }}>
+      <Typography variant="caption" sx={{ color: "#71717a", fontWeight: 500 }}>
+        {label}
+      </Typography>
+      <Typography
+        variant="caption"
+        sx={{ color: "#10b981", fontFamily: "monospace" }}
+      >
+        {percentage}%
+      </Typography>
+    </Box>
+    <Box
+      sx={{
+        height: 6,
+        width: "100%",
+        bgcolor: "#27272a",
+        borderRadius: "9999px",
+        overflow: "hidden",
+      }}
+    >
+      <Box
+        sx={{
+          height: "100%",
+          width: `${percentage}%`,
+          background: "linear-gradient(to right, #10b981, #2dd4bf)",
+          borderRadius: "9999px",
+        }}
+      />
+    </Box>
+  </Box>
+);
+
+export default function ResultsPage() {
+  const { sessionId = "" } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const locationState = location.state as ResultsLocationState | null;
+  const [state, setState] = useState<ResultsState>(() =>
+    locationState?.results
+      ? { status: "loaded", results: locationState.results }
+      : { status: "loading" }
+  );
+  const [reloadKey, setReloadKey] = useState(0);
+  const [logs, setLogs] = useState<LogsState>({ status: "loading" });
+
+  const historyEntry = loadSessionHistory().find(
+    (entry) => entry.sessionId === sessionId
+  );
+  const week: SessionReportWeek | null = locationState?.weekData
+    ? {
+        number: locationState.weekData.week,
+        title: locationState.weekData.title,
+      }
+    : historyEntry
+    ? { number: historyEntry.weekNumber, title: historyEntry.weekTitle }
+    : null;
+  const weekTitle = week
+    ? `Week ${week.number} • ${week.title}`
+    : "Interview Results";
+
+  useEffect(() => {
+    if (state.status !== "loading") return;
+    const controller = new AbortController();
+
+    getSessionResults(sessionId, { signal: controller.signal })
+      .then((results) => setState({ status: "loaded", results }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Failed to get session results:", error);
+        setState({
+          status: "error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    return () => controller.abort();
+  }, [sessionId, reloadKey, state.status]);
+
+  // Only the exported report includes transcripts, so a failure here is not
+  // shown on the page itself.
+  useEffect(() => {
+    const controller = new AbortController();
+
+    getSessionLogs(sessionId, { signal: controller.signal })
+      .then((entries) => setLogs({ status: "loaded", entries }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Failed to get session logs:", error);
+        setLogs({ status: "error" });
+      });
+
+    return () => controller.abort();
+  }, [sessionId]);
+
+  if (state.status !== "loaded") {
+    return (
+      <PageShell glow={false}>
+        <Box
+          sx={{
+            position: "relative",
+            zIndex: 10,
+            minHeight: "100vh",
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            p: 3,
+            textAlign: "center",
+          }}
+        >
+          {state.status === "loading" ? (
+            <CircularProgress size={32} sx={{ color: "#10b981" }} />
+          ) : (
+            <>
+              <Typography
+                sx={{ color: "#ef4444", fontSize: "0.875rem", mb: 3 }}
+              >
+                {state.message}
+              </Typography>
+              <Stack direction="row" spacing={2}>
+                <Button
+                  onClick={() => {
+                    setState({ status: "loading" });
+                    setReloadKey((key) => key + 1);
+                  }}
+                  sx={{ color: "#10b981", textTransform: "none" }}
+                >
+                  Try Again
+                </Button>
+                <Button
+                  onClick={() => navigate("/")}
+                  sx={{ color: "#a1a1aa", textTransform: "none" }}
+                >
+                  Return to Dashboard
+                </Button>
+              </Stack>
+            </>
+          )}
+        </Box>
+      </PageShell>
+    );
+  }
+
+  const { results } = state;
+  const tier = getScoreTier(results.performance_score);
+  const completion = getCompletionPercent(
+    results.questions_answered,
+    locationState?.totalQuestions ?? historyEntry?.totalQuestions
+  );
+  const createReport = () =>
+    buildSessionReport({
+      sessionId,
+      week,
+      results,
+      logs: logs.status === "loaded" ? logs.entries : null,
+      answerTimes: historyEntry?.answerTimes,
+    });
+
+  return (
+    <PageShell glow={false} scrollable>
+      <PrintableReport report={createReport()} />
+      <Box
+        sx={{
+          position: "relative",
+          zIndex: 10,
+          minHeight: "100vh",
+          displayPrint: "none",
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "flex-start",
+          p: 3,
+          py: 4,
+        }}
+      >
+        <Card
+          sx={{
+            maxWidth: "56rem",
+            width: "100%",
+            bgcolor: "rgba(24, 24, 27, 0.6)",
+            backdropFilter: "blur(24px)",
+            border: "1px solid rgba(255, 255, 255, 0.1)",
+            borderRadius: 6,
+            overflow: "visible",
+            display: "flex",
+            flexDirection: { xs: "column", md: "row" },
+            my: 2,
+          }}
+        >
+          <Box
+            sx={{
+              width: { xs: "100%", md: "33.333%" },
+              bgcolor: "rgba(255, 255, 255, 0.05)",
+              p: 4,
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              justifyContent: "center",
+              borderBottom: {
+                xs: "1px solid rgba(255, 255, 255, 0.05)",
+                md: "none",
+              },
+              borderRight: {
+                xs: "none",
+                md: "1px solid rgba(255, 255, 255, 0.05)",
+              },
+              position: "relative",
+              overflow: "hidden",
+              "&::before": {
+                content: '""',
+                position: "absolute",
+                inset: 0,
+                background:
+                  "linear-gradient(to bottom right, rgba(99, 102, 241, 0.1), transparent)",
+              },
+            }}
+          >
+            <Box sx={{ position: "relative", zIndex: 10, textAlign: "center" }}>
+              <Typography
+                variant="caption"
+                sx={{
+                  color: "#a1a1aa",
+                  fontWeight: 500,
+                  mb: 3,
+                  textTransform: "uppercase",
+                  letterSpacing: "0.1em",
+                }}
+              >
+                Your Performance
+              </Typography>
+
+              <Box
+                sx={{
+                  position: "relative",
+                  width: 160,
+                  height: 160,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  mb: 3,
+                  mx: "auto",
+                }}
+              >
+                <CircularProgress
+                  variant="determinate"
+                  value={100}
+                  size={160}
+                  thickness={12}
+                  sx={{
+                    position: "absolute",
+                    color: "#27272a",
+                    "& .MuiCircularProgress-circle": {
+                      strokeLinecap: "round",
+                    },
+                  }}
+                />
+                <CircularProgress
+                  variant="determinate"
+                  value={results.performance_score}
+                  size={160}
+                  thickness={12}
+                  sx={{
+                    position: "absolute",
+                    color: tier.color,
+                    transform: "rotate(-90deg)",
+                    "& .MuiCircularProgress-circle": {
+                      strokeLinecap: "round",
+                    },
+                  }}
+                />
+                <Box
+                  sx={{
+                    display: "flex",
+                    flexDirection: "column",
+                    alignItems: "center",
+                  }}
+                >
+                  <Typography
+                    sx={{
+                      color: "white",
+                      fontFamily: "monospace",
+                      fontSize: "2.25rem",
+                      lineHeight: 1,
+                    }}
+                  >
+                    {Math.round(results.performance_score)}
+                  </Typography>
+                  <Typography
+                    sx={{
+                      color: tier.color,
+                      fontSize: "0.875rem",
+                      fontWeight: 500,
+                      mt: 0.5,
+                    }}
+                  >
+                    {tier.label}
+                  </Typography>
+                </Box>
+              </Box>
+
+              <Stack
+                direction="row"
+                spacing={2}
+                justifyContent="center"
+                alignItems="center"
+              >
+                <Box sx={{ textAlign: "center" }}>
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      color: "#71717a",
+                      textTransform: "uppercase",
+                      mb: 0.5,
+                      display: "block",
+                    }}
+                  >
+                    Time
+                  </Typography>
+                  <Typography sx={{ fontFamily: "monospace", color: "white" }}>
+                    {results.time_elapsed_formatted}
+                  </Typography>
+                </Box>
+                <Box
+                  sx={{
+                    width: "1px",
+                    height: 24,
+                    bgcolor: "rgba(255, 255, 255, 0.1)",
+                  }}
+                />
+                <Box sx={{ textAlign: "center" }}>
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      color: "#71717a",
+                      textTransform: "uppercase",
+                      mb: 0.5,
+                      display: "block",
+                    }}
+                  >
+                    Avg Score
+                  </Typography>
+                  <Typography sx={{ fontFamily: "monospace", color: "white" }}>
+                    {results.average_score.toFixed(1)}
+                  </Typography>
+                </Box>
+                <Box
+                  sx={{
+                    width: "1px",
+                    height: 24,
+                    bgcolor: "rgba(255, 255, 255, 0.1)",
+                  }}
+                />
+                <Box sx={{ textAlign: "center" }}>
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      color: "#71717a",
+                      textTransform: "uppercase",
+                      mb: 0.5,
+                      display: "block",
+                    }}
+                  >
+                    Complete
+                  </Typography>
+                  <Typography
+                    sx={{
+                      fontFamily: "monospace",
+                      color: completion === 100 ? "#10b981" : "#f59e0b",
+                    }}
+                  >
+                    {completion === null
+                      ? `${results.questions_answered} Qs`
+                      : `${completion}%`}
+                  </Typography>
+                </Box>
+              </Stack>
+            </Box>
+          </Box>
+
+          <Box
+            sx={{
+              width: { xs: "100%", md: "66.666%" },
+              p: 4,
+              overflowY: "auto",
+              maxHeight: { xs: "none", md: "calc(100vh - 32px)" },
+            }}
+          >
+            <Stack
+              direction="row"
+              justifyContent="space-between"
+              alignItems="center"
+              sx={{ mb: 3 }}
+            >
+              <Box>
+                <Typography
+                  variant="h4"
+                  sx={{ fontWeight: 700, color: "white", mb: 0.5 }}
+                >
+                  Session Analysis
+                </Typography>
+                <Typography sx={{ color: "#a1a1aa", fontSize: "0.875rem" }}>
+                  {weekTitle}
+                </Typography>
+              </Box>
+              <Box
+                sx={{
+                  width: 40,
+                  height: 40,
+                  bgcolor: "rgba(16, 185, 129, 0.2)",
+                  borderRadius: "50%",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}
+              >
+                <EmojiEvents sx={{ color: "#10b981", fontSize: 20 }} />
+              </Box>
+            </Stack>
+
+            <Stack spacing={3} sx={{ pb: 2 }}>
+              <Card
+                sx={{
+                  bgcolor: "rgba(39, 39, 42, 0.5)",
+                  borderRadius: 3,
+                  p: 2,
+                  border: "1px solid rgba(255, 255, 255, 0.05)",
+                }}
+              >
+                <Stack
+                  direction="row"
+                  spacing={1}
+                  alignItems="center"
+                  sx={{ mb: 1 }}
+                >
+                  <AutoAwesome sx={{ fontSize: 14, color: "#818cf8" }} />
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      fontWeight: 700,
+                      color: "#c7d2fe",
+                      textTransform: "uppercase",
+                      letterSpacing: "0.05em",
+                    }}
+                  >
+                    Mentor Note
+                  </Typography>
+                </Stack>
+                <Typography
+                  sx={{
+                    color: "#d4d4d8",
+                    fontSize: "0.875rem",
+                    lineHeight: 1.75,
+                  }}
+                >
+                  {results.mentor_feedback}
+                </Typography>
+              </Card>
+
+              {results.skill_breakdown && (
+                <Box>
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      fontWeight: 500,
+                      color: "#71717a",
+                      textTransform: "uppercase",
+                      letterSpacing: "0.1em",
+                      mb: 2,
+                      display: "block",
+                    }}
+                  >
+                    Skill Assessment
+                  </Typography>
+                  <Stack
+                    direction={{ xs: "column", sm: "row" }}
+                    spacing={2}
+                    flexWrap="wrap"
+                    useFlexGap
+                  >
+                    {Object.entries(results.skill_breakdown).map(
+                      ([skill, score]) => (
+                        <Box
+                          key={skill}
+                          sx={{
+                            flex: {
+                              xs: "1 1 100%",
+                              sm: "1 1 calc(50% - 8px)",
+                            },
+                          }}
+                        >
+                          <SkillBar label={skill} percentage={score} />
+                        </Box>
+                      )
+                    )}
+                  </Stack>
+                </Box>
+              )}
+
+              <Stack
+                direction="row"
+                spacing={1}
+                justifyContent="flex-end"
+                alignItems="center"
+                sx={{ pt: 2 }}
+              >
+                <Button
+                  onClick={() => window.print()}
+                  disabled={logs.status === "loading"}
+                  startIcon={<Print />}
+                  sx={exportButtonSx}
+                >
+                  Print / PDF
+                </Button>
+                <Button
+                  onClick={() => downloadSessionReport(createReport())}
+                  disabled={logs.status === "loading"}
+                  startIcon={<Download />}
+                  sx={exportButtonSx}
+                >
+                  Export JSON
+                </Button>
+                <Button
+                  onClick={() => navigate("/")}
+                  variant="contained"
+                  endIcon={<ArrowForward />}
+                  sx={{
+                    bgcolor: "white",
+                    color: "black",
+                    fontWeight: 600,
+                    textTransform: "none",
+                    borderRadius: 2,
+                    px: 2.5,
+                    py: 1.25,
+                    "&:hover": {
+                      bgcolor: "#e4e4e7",
+                    },
+                  }}
+                >
+                  Return to Dashboard
+                </Button>
+              </Stack>
+            </Stack>
+          </Box>
+        </Card>
+      </Box>
+    </PageShell>
+  );
+}
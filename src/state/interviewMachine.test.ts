@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import {
+  createInterviewState,
+  interviewReducer,
+  isInterviewLive,
+  type InterviewEvent,
+  type InterviewState,
+  type InterviewStatus,
+  type InterviewStep,
+} from "./interviewMachine";
+
+const inStatus = (
+  status: InterviewStatus,
+  patch: Partial<InterviewState> = {}
+): InterviewState => ({
+  ...createInterviewState(),
+  question: "What is a closure?",
+  ...patch,
+  status,
+});
+
+const failed = (step: InterviewStep, patch: Partial<InterviewState> = {}) =>
+  inStatus("error", { ...patch, error: { step, cause: new Error(step) } });
+
+/** Applies `events` in order, starting from `state`. */
+const run = (state: InterviewState, ...events: InterviewEvent[]) =>
+  events.reduce(interviewReducer, state);
+
+const scored = (
+  patch: Partial<Extract<InterviewEvent, { type: "answerScored" }>> = {}
+): InterviewEvent => ({
+  type: "answerScored",
+  isComplete: false,
+  nextQuestion: null,
+  questionIndex: 1,
+  ...patch,
+});
+
+describe("interviewReducer", () => {
+  it("walks a question from loading to being answered", () => {
+    const state = run(
+      createInterviewState(),
+      { type: "start" },
+      { type: "questionReady", question: "Q1", questionIndex: 0 },
+      { type: "questionAsked" },
+      { type: "recordStart" },
+      { type: "recordStop", review: true },
+      { type: "answerConfirmed" }
+    );
+
+    expect(state).toMatchObject({
+      status: "processing",
+      question: "Q1",
+      questionIndex: 0,
+      error: null,
+    });
+  });
+
+  it("ignores events that are invalid in the current status", () => {
+    const cases: [InterviewState, InterviewEvent][] = [
+      [inStatus("idle"), { type: "questionAsked" }],
+      [inStatus("asking"), { type: "recordStart" }],
+      [inStatus("awaitingAnswer"), { type: "recordStop" }],
+      [inStatus("recording"), { type: "answerConfirmed" }],
+      [inStatus("processing"), { type: "start" }],
+      [inStatus("completed"), scored()],
+      [inStatus("loading"), { type: "retry" }],
+      [inStatus("completing"), { type: "submitCancel" }],
+    ];
+
+    for (const [state, event] of cases) {
+      expect(interviewReducer(state, event)).toBe(state);
+    }
+  });
+
+  it("accepts an error only from the statuses its step runs in", () => {
+    const sources: Record<InterviewStep, InterviewStatus[]> = {
+      load: ["loading"],
+      record: ["awaitingAnswer", "recording"],
+      submit: ["processing"],
+      complete: ["completing"],
+    };
+    const statuses: InterviewStatus[] = [
+      "idle",
+      "loading",
+      "asking",
+      "awaitingAnswer",
+      "recording",
+      "reviewing",
+      "processing",
+      "completing",
+      "completed",
+    ];
+
+    for (const [step, accepted] of Object.entries(sources) as [
+      InterviewStep,
+      InterviewStatus[]
+    ][]) {
+      for (const status of statuses) {
+        const state = inStatus(status);
+        const next = interviewReducer(state, {
+          type: "error",
+          step,
+          cause: "boom",
+        });
+        if (accepted.includes(status)) {
+          expect(next).toMatchObject({
+            status: "error",
+            error: { step, cause: "boom" },
+          });
+        } else {
+          expect(next).toBe(state);
+        }
+      }
+    }
+  });
+
+  it("retries a failed step by re-entering the status it runs in", () => {
+    expect(interviewReducer(failed("load"), { type: "retry" })).toMatchObject({
+      status: "loading",
+      error: null,
+    });
+    expect(interviewReducer(failed("record"), { type: "retry" }).status).toBe(
+      "awaitingAnswer"
+    );
+    expect(interviewReducer(failed("submit"), { type: "retry" }).status).toBe(
+      "processing"
+    );
+    expect(interviewReducer(failed("complete"), { type: "retry" }).status).toBe(
+      "completing"
+    );
+  });
+
+  it("dismisses only failed submits and recordings", () => {
+    expect(
+      interviewReducer(failed("submit"), { type: "dismiss" })
+    ).toMatchObject({ status: "awaitingAnswer", error: null });
+    expect(interviewReducer(failed("record"), { type: "dismiss" }).status).toBe(
+      "awaitingAnswer"
+    );
+
+    const loadFailure = failed("load");
+    const completeFailure = failed("complete");
+    expect(interviewReducer(loadFailure, { type: "dismiss" })).toBe(
+      loadFailure
+    );
+    expect(interviewReducer(completeFailure, { type: "dismiss" })).toBe(
+      completeFailure
+    );
+  });
+
+  it("lets the candidate retry a failed recording by starting again", () => {
+    expect(
+      interviewReducer(failed("record"), { type: "recordStart" })
+    ).toMatchObject({ status: "recording", error: null });
+
+    const submitFailure = failed("submit");
+    expect(interviewReducer(submitFailure, { type: "recordStart" })).toBe(
+      submitFailure
+    );
+  });
+
+  it("stops offering re-records once they are used up", () => {
+    const reviewing = inStatus("reviewing", { rerecordsLeft: 1 });
+
+    const rerecorded = interviewReducer(reviewing, { type: "rerecord" });
+    expect(rerecorded).toMatchObject({
+      status: "awaitingAnswer",
+      rerecordsLeft: 0,
+    });
+
+    const reviewingAgain = run(
+      rerecorded,
+      { type: "recordStart" },
+      { type: "recordStop", review: true }
+    );
+    expect(reviewingAgain.status).toBe("reviewing");
+    expect(interviewReducer(reviewingAgain, { type: "rerecord" })).toBe(
+      reviewingAgain
+    );
+  });
+
+  it("moves on from a scored answer according to the response", () => {
+    const processing = inStatus("processing");
+
+    expect(
+      interviewReducer(
+        processing,
+        scored({ nextQuestion: "Q2", questionIndex: 1 })
+      )
+    ).toMatchObject({ status: "asking", question: "Q2", questionIndex: 1 });
+    expect(
+      interviewReducer(processing, scored({ questionIndex: 1 }))
+    ).toMatchObject({
+      status: "loading",
+      question: "What is a closure?",
+      questionIndex: 1,
+    });
+    expect(
+      interviewReducer(
+        processing,
+        scored({ isComplete: true, nextQuestion: "Q2" })
+      ).status
+    ).toBe("completing");
+  });
+
+  it("restores a saved answer only while the question is being asked", () => {
+    expect(
+      interviewReducer(inStatus("asking"), { type: "answerRestored" }).status
+    ).toBe("processing");
+
+    const awaiting = inStatus("awaitingAnswer");
+    expect(interviewReducer(awaiting, { type: "answerRestored" })).toBe(
+      awaiting
+    );
+  });
+});
+
+describe("isInterviewLive", () => {
+  it("is live between the first question and the last answer", () => {
+    expect(isInterviewLive(inStatus("asking"))).toBe(true);
+    expect(isInterviewLive(inStatus("processing"))).toBe(true);
+    expect(isInterviewLive(inStatus("loading"))).toBe(false);
+    expect(isInterviewLive(inStatus("completing"))).toBe(false);
+  });
+
+  it("stays live through failures the candidate can recover from", () => {
+    expect(isInterviewLive(failed("submit"))).toBe(true);
+    expect(isInterviewLive(failed("record"))).toBe(true);
+    expect(isInterviewLive(failed("load"))).toBe(false);
+  });
+});
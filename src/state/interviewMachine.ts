@@ -0,0 +1,202 @@
+/**
+ * Interview flow as an explicit state machine. The reducer is pure so it can
+ * be driven by `useReducer` in the interview room and exercised directly in
+ * tests; side effects (network, recording, playback) stay in the component
+ * and report back through events.
+ */
+
+/** Async steps that can fail and be retried. */
+export type InterviewStep = "load" | "record" | "submit" | "complete";
+
+export type InterviewStatus =
+  | "idle"
+  | "loading"
+  | "asking"
+  | "awaitingAnswer"
+  | "recording"
+  | "reviewing"
+  | "processing"
+  | "completing"
+  | "completed"
+  | "error";
+
+export interface InterviewState {
+  status: InterviewStatus;
+  question: string;
+  questionIndex: number;
+  /** Re-records still available to the candidate in this session. */
+  rerecordsLeft: number;
+  /** Set only while `status` is "error". */
+  error: { step: InterviewStep; cause: unknown } | null;
+}
+
+export type InterviewEvent =
+  | { type: "start" }
+  | { type: "questionReady"; question: string; questionIndex: number }
+  | { type: "questionAsked" }
+  | { type: "recordStart" }
+  | { type: "recordStop"; review?: boolean }
+  | { type: "recordCancel" }
+  | { type: "answerConfirmed" }
+  | { type: "rerecord" }
+  | { type: "answerRestored" }
+  | { type: "submitCancel" }
+  | {
+      type: "answerScored";
+      isComplete: boolean;
+      nextQuestion: string | null;
+      questionIndex: number;
+    }
+  | { type: "completed" }
+  | { type: "error"; step: InterviewStep; cause: unknown }
+  | { type: "retry" }
+  | { type: "dismiss" };
+
+/** The status each step runs in, used to re-enter it on retry. */
+const STEP_STATUS: Record<InterviewStep, InterviewStatus> = {
+  load: "loading",
+  record: "awaitingAnswer",
+  submit: "processing",
+  complete: "completing",
+};
+
+/** The status an event of type "error" is accepted from, per step. */
+const STEP_SOURCES: Record<InterviewStep, InterviewStatus[]> = {
+  load: ["loading"],
+  record: ["awaitingAnswer", "recording"],
+  submit: ["processing"],
+  complete: ["completing"],
+};
+
+export function createInterviewState({
+  questionIndex = 0,
+  rerecordsLeft = 0,
+}: Partial<
+  Pick<InterviewState, "questionIndex" | "rerecordsLeft">
+> = {}): InterviewState {
+  return {
+    status: "idle",
+    question: "",
+    questionIndex,
+    rerecordsLeft,
+    error: null,
+  };
+}
+
+const to = (
+  state: InterviewState,
+  status: InterviewStatus,
+  patch: Partial<InterviewState> = {}
+): InterviewState => ({ ...state, ...patch, status, error: null });
+
+/**
+ * Applies `event` to `state`. Events that are not valid in the current status
+ * are ignored and the same state object is returned, so callers can dispatch
+ * freely from async callbacks that may have been overtaken.
+ */
+export function interviewReducer(
+  state: InterviewState,
+  event: InterviewEvent
+): InterviewState {
+  switch (event.type) {
+    case "start":
+      return state.status === "idle" ? to(state, "loading") : state;
+
+    case "questionReady":
+      return state.status === "loading"
+        ? to(state, "asking", {
+            question: event.question,
+            questionIndex: event.questionIndex,
+          })
+        : state;
+
+    case "questionAsked":
+      return state.status === "asking" ? to(state, "awaitingAnswer") : state;
+
+    case "recordStart":
+      // Starting again after a failed attempt to open the microphone is the
+      // retry for the record step.
+      return state.status === "awaitingAnswer" ||
+        (state.status === "error" && state.error?.step === "record")
+        ? to(state, "recording")
+        : state;
+
+    case "recordStop":
+      if (state.status !== "recording") return state;
+      return to(state, event.review ? "reviewing" : "processing");
+
+    case "recordCancel":
+      return state.status === "recording" ? to(state, "awaitingAnswer") : state;
+
+    case "answerConfirmed":
+      return state.status === "reviewing" ? to(state, "processing") : state;
+
+    case "rerecord":
+      return state.status === "reviewing" && state.rerecordsLeft > 0
+        ? to(state, "awaitingAnswer", {
+            rerecordsLeft: state.rerecordsLeft - 1,
+          })
+        : state;
+
+    case "answerRestored":
+      // An answer saved before a reload is submitted instead of asking again.
+      return state.status === "asking" ? to(state, "processing") : state;
+
+    case "submitCancel":
+      return state.status === "processing"
+        ? to(state, "awaitingAnswer")
+        : state;
+
+    case "answerScored":
+      if (state.status !== "processing") return state;
+      if (event.isComplete) return to(state, "completing");
+      // Without the next question inline it has to be fetched separately.
+      return event.nextQuestion
+        ? to(state, "asking", {
+            question: event.nextQuestion,
+            questionIndex: event.questionIndex,
+          })
+        : to(state, "loading", { questionIndex: event.questionIndex });
+
+    case "completed":
+      return state.status === "completing" ? to(state, "completed") : state;
+
+    case "error":
+      return STEP_SOURCES[event.step].includes(state.status)
+        ? {
+            ...state,
+            status: "error",
+            error: { step: event.step, cause: event.cause },
+          }
+        : state;
+
+    case "retry":
+      return state.status === "error" && state.error
+        ? to(state, STEP_STATUS[state.error.step])
+        : state;
+
+    case "dismiss":
+      // Abandoning a failed answer lets the candidate record it again; other
+      // failures have nothing sensible to fall back to.
+      return state.status === "error" &&
+        (state.error?.step === "submit" || state.error?.step === "record")
+        ? to(state, "awaitingAnswer")
+        : state;
+  }
+}
+
+/** Whether the candidate is inside a loaded, unfinished interview. */
+export function isInterviewLive(state: InterviewState): boolean {
+  switch (state.status) {
+    case "asking":
+    case "awaitingAnswer":
+    case "recording":
+    case "reviewing":
+    case "processing":
+      return true;
+    case "error":
+      return state.error?.step === "record" || state.error?.step === "submit";
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,62 @@
+import { vi } from "vitest";
+
+/**
+ * Just enough of `livekit-client` for AvatarVideo. Use it with
+ * `vi.mock("livekit-client", () => import("../test/livekit"))`.
+ */
+
+type Handler = (...args: unknown[]) => void;
+
+export const RoomEvent = {
+  Connected: "connected",
+  Disconnected: "disconnected",
+  DataReceived: "dataReceived",
+  TrackSubscribed: "trackSubscribed",
+};
+
+export class Room {
+  state = "disconnected";
+  name = "avatar-room";
+  remoteParticipants = new Map();
+  localParticipant = {
+    identity: "candidate",
+    publishData: vi.fn<
+      (payload: Uint8Array, options: { topic: string }) => Promise<void>
+    >(async () => {}),
+  };
+  private handlers = new Map<string, Handler[]>();
+
+  constructor() {
+    rooms.push(this);
+  }
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+    return this;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    this.handlers.get(event)?.forEach((handler) => handler(...args));
+  }
+
+  /** Reports, as the avatar agent does, that it has finished speaking. */
+  finishSpeaking() {
+    const payload = new TextEncoder().encode(
+      JSON.stringify({ event_type: "avatar.speak_ended" })
+    );
+    this.emit(RoomEvent.DataReceived, payload, undefined, 0, "agent-response");
+  }
+
+  connect = vi.fn<(url: string, token: string) => Promise<void>>(async () => {
+    this.state = "connected";
+    this.emit(RoomEvent.Connected);
+  });
+
+  disconnect = vi.fn(async () => {
+    this.state = "disconnected";
+    this.emit(RoomEvent.Disconnected);
+  });
+}
+
+/** Every room created since the last reset, oldest first. */
+export const rooms: Room[] = [];
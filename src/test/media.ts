@@ -0,0 +1,111 @@
+import { vi } from "vitest";
+
+/**
+ * Stand-ins for the media APIs jsdom does not implement. Recorders emit a
+ * small clip when stopped and audio elements "finish" playing right away.
+ */
+
+class FakeMediaStream {
+  readonly track = { kind: "audio", stop: vi.fn() };
+
+  getTracks() {
+    return [this.track];
+  }
+
+  getAudioTracks() {
+    return [this.track];
+  }
+}
+
+export class FakeMediaRecorder {
+  readonly stream: MediaStream;
+  state: RecordingState = "inactive";
+  readonly mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(stream: MediaStream, options?: MediaRecorderOptions) {
+    this.stream = stream;
+    this.mimeType = options?.mimeType ?? "audio/webm";
+    recorders.push(this);
+  }
+
+  start() {
+    this.state = "recording";
+  }
+
+  pause() {
+    this.state = "paused";
+  }
+
+  resume() {
+    this.state = "recording";
+  }
+
+  stop() {
+    this.state = "inactive";
+    this.ondataavailable?.({
+      data: new Blob(["recorded answer"], { type: this.mimeType }),
+    });
+    this.onstop?.();
+  }
+}
+
+class FakeAudioContext {
+  state: AudioContextState = "running";
+
+  constructor() {
+    audioContexts.push(this);
+  }
+
+  createMediaStreamSource() {
+    return { connect() {}, disconnect() {} };
+  }
+
+  createAnalyser() {
+    return { fftSize: 2048, getFloatTimeDomainData() {} };
+  }
+
+  close() {
+    this.state = "closed";
+    return Promise.resolve();
+  }
+}
+
+const recorders: FakeMediaRecorder[] = [];
+const audioContexts: FakeAudioContext[] = [];
+
+export function installMediaFakes() {
+  recorders.length = 0;
+  audioContexts.length = 0;
+  const stream = new FakeMediaStream();
+  const mediaDevices = Object.assign(new EventTarget(), {
+    getUserMedia: vi.fn(async () => stream as unknown as MediaStream),
+    enumerateDevices: vi.fn(async () => [] as MediaDeviceInfo[]),
+  });
+
+  Object.defineProperty(navigator, "mediaDevices", {
+    configurable: true,
+    value: mediaDevices,
+  });
+  vi.stubGlobal("MediaRecorder", FakeMediaRecorder);
+  vi.stubGlobal("AudioContext", FakeAudioContext);
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockImplementation(function (
+    this: HTMLMediaElement
+  ) {
+    setTimeout(() => this.dispatchEvent(new Event("ended")));
+    return Promise.resolve();
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "pause").mockImplementation(function (
+    this: HTMLMediaElement
+  ) {
+    this.dispatchEvent(new Event("pause"));
+  });
+
+  return {
+    stream,
+    getUserMedia: mediaDevices.getUserMedia,
+    recorders,
+    audioContexts,
+  };
+}
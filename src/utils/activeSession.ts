@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { weekSchema } from "../api/schemas";
+import { AUDIO_COMPRESSIONS } from "./audioFormat";
+import { answerTimesSchema } from "./sessionHistory";
+
+const ACTIVE_SESSION_KEY = "activeInterviewSession";
+const MAX_SESSION_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const AVATAR_SESSION_TOKEN_KEY = "avatarSessionToken";
+
+const activeSessionSchema = z.object({
+  sessionId: z.string().min(1),
+  weekData: weekSchema,
+  totalQuestions: z.number().int().min(0).optional(),
+  questionIndex: z.number().int().min(0),
+  elapsedSeconds: z.number().min(0),
+  avatarMode: z.boolean().default(false),
+  handsFree: z.boolean().default(false),
+  reviewAnswers: z.boolean().default(false),
+  rerecordsLeft: z.number().int().min(0).default(0),
+  thinkingTimeSeconds: z.number().int().min(0).default(0),
+  maxAnswerSeconds: z.number().int().min(0).default(0),
+  streamAnswers: z.boolean().default(false),
+  audioCompression: z.enum(AUDIO_COMPRESSIONS).default("none"),
+  answerTimes: answerTimesSchema.default({}),
+  updatedAt: z.number(),
+});
+
+export type ActiveSession = z.output<typeof activeSessionSchema>;
+
+/**
+ * Returns the in-progress interview saved by a previous page load, if any.
+ * Corrupt or stale records are discarded.
+ */
+export function loadActiveSession(): ActiveSession | null {
+  try {
+    const raw = localStorage.getItem(ACTIVE_SESSION_KEY);
+    if (!raw) return null;
+
+    const parsed = activeSessionSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success || Date.now() - parsed.data.updatedAt > MAX_SESSION_AGE_MS) {
+      localStorage.removeItem(ACTIVE_SESSION_KEY);
+      return null;
+    }
+    return parsed.data;
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveSession(session: Omit<ActiveSession, "updatedAt">): void {
+  try {
+    localStorage.setItem(
+      ACTIVE_SESSION_KEY,
+      JSON.stringify({ ...session, updatedAt: Date.now() })
+    );
+  } catch (error) {
+    console.error("Failed to persist active session:", error);
+  }
+}
+
+export function clearActiveSession(): void {
+  try {
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  } catch {
+    // Storage unavailable; nothing to clear.
+  }
+}
@@ -0,0 +1,48 @@
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  loadQueuedAnswer,
+  queueAnswer,
+  removeQueuedAnswer,
+} from "./answerQueue";
+
+const answer = {
+  sessionId: "abc123",
+  questionIndex: 2,
+  audio: new Blob(["recorded answer"], { type: "audio/webm" }),
+  timeSpentSeconds: 42,
+  queuedAt: 1_700_000_000_000,
+};
+
+describe("answerQueue", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory());
+  });
+
+  it("keeps an answer until it is removed", async () => {
+    await queueAnswer(answer);
+
+    const queued = await loadQueuedAnswer("abc123");
+    expect(queued).toMatchObject({ questionIndex: 2, timeSpentSeconds: 42 });
+    expect(queued?.audio.type).toBe("audio/webm");
+    expect(await queued?.audio.text()).toBe("recorded answer");
+    expect(await loadQueuedAnswer("other")).toBeNull();
+
+    await removeQueuedAnswer("abc123");
+    expect(await loadQueuedAnswer("abc123")).toBeNull();
+  });
+
+  it("replaces the session's earlier answer", async () => {
+    await queueAnswer(answer);
+    await queueAnswer({ ...answer, questionIndex: 3 });
+
+    expect((await loadQueuedAnswer("abc123"))?.questionIndex).toBe(3);
+  });
+
+  it("does nothing where IndexedDB is unavailable", async () => {
+    vi.stubGlobal("indexedDB", undefined);
+
+    await queueAnswer(answer);
+    expect(await loadQueuedAnswer("abc123")).toBeNull();
+  });
+});
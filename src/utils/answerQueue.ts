@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+const DB_NAME = "virtualReviewer";
+const DB_VERSION = 1;
+const STORE_NAME = "pendingAnswers";
+
+export interface QueuedAnswer {
+  sessionId: string;
+  questionIndex: number;
+  audio: Blob;
+  timeSpentSeconds: number;
+  queuedAt: number;
+}
+
+// Audio is stored as bytes: some browsers cannot keep Blobs in IndexedDB.
+const queuedAnswerRecordSchema = z.object({
+  sessionId: z.string().min(1),
+  questionIndex: z.number().int().min(0),
+  // Checked by tag: buffers read back may come from another realm.
+  audio: z.custom<ArrayBuffer>(
+    (value) => Object.prototype.toString.call(value) === "[object ArrayBuffer]"
+  ),
+  audioType: z.string(),
+  timeSpentSeconds: z.number().min(0),
+  queuedAt: z.number(),
+});
+
+type QueuedAnswerRecord = z.output<typeof queuedAnswerRecordSchema>;
+
+const isQueueAvailable = () => typeof indexedDB !== "undefined";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "sessionId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Keeps an answer that could not be submitted so it survives reloads. Answers
+ * are sent one at a time, so each session holds at most one.
+ */
+export async function queueAnswer(answer: QueuedAnswer): Promise<void> {
+  if (!isQueueAvailable()) return;
+  try {
+    const record: QueuedAnswerRecord = {
+      sessionId: answer.sessionId,
+      questionIndex: answer.questionIndex,
+      audio: await answer.audio.arrayBuffer(),
+      audioType: answer.audio.type,
+      timeSpentSeconds: answer.timeSpentSeconds,
+      queuedAt: answer.queuedAt,
+    };
+    await withStore("readwrite", (store) => store.put(record));
+  } catch (error) {
+    console.error("Failed to queue answer:", error);
+  }
+}
+
+/** The answer waiting to be submitted for `sessionId`, if any. */
+export async function loadQueuedAnswer(
+  sessionId: string
+): Promise<QueuedAnswer | null> {
+  if (!isQueueAvailable()) return null;
+  try {
+    const parsed = queuedAnswerRecordSchema.safeParse(
+      await withStore("readonly", (store) => store.get(sessionId))
+    );
+    if (!parsed.success) return null;
+    const { audio, audioType, ...answer } = parsed.data;
+    return { ...answer, audio: new Blob([audio], { type: audioType }) };
+  } catch (error) {
+    console.error("Failed to load queued answer:", error);
+    return null;
+  }
+}
+
+export async function removeQueuedAnswer(sessionId: string): Promise<void> {
+  if (!isQueueAvailable()) return;
+  try {
+    await withStore("readwrite", (store) => store.delete(sessionId));
+  } catch (error) {
+    console.error("Failed to remove queued answer:", error);
+  }
+}
@@ -0,0 +1,76 @@
+type LevelListener = (rms: number, now: number) => void;
+
+/**
+ * One Web Audio analyser on a stream, shared by everything that reads its
+ * level so that each reader does not open an `AudioContext` of its own.
+ */
+export interface LevelAnalyser {
+  /**
+   * Reports the RMS level to `onSample` roughly every `intervalMs`. Returns a
+   * function that stops reporting to it.
+   */
+  subscribe: (intervalMs: number, onSample: LevelListener) => () => void;
+  /** Releases the audio graph; the stream's tracks are left running. */
+  close: () => void;
+}
+
+interface Subscriber {
+  intervalMs: number;
+  onSample: LevelListener;
+  lastSampleAt: number;
+}
+
+export function createLevelAnalyser(stream: MediaStream): LevelAnalyser {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const subscribers = new Set<Subscriber>();
+  let frame = 0;
+  let closed = false;
+
+  const readRms = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const value of samples) sum += value * value;
+    return Math.sqrt(sum / samples.length);
+  };
+
+  // Only runs while someone is subscribed.
+  const sample = (now: number) => {
+    frame = requestAnimationFrame(sample);
+    let rms: number | null = null;
+    for (const subscriber of subscribers) {
+      if (now - subscriber.lastSampleAt < subscriber.intervalMs) continue;
+      subscriber.lastSampleAt = now;
+      rms ??= readRms();
+      subscriber.onSample(rms, now);
+    }
+  };
+
+  return {
+    subscribe: (intervalMs, onSample) => {
+      if (closed) return () => {};
+      const subscriber = { intervalMs, onSample, lastSampleAt: 0 };
+      subscribers.add(subscriber);
+      if (subscribers.size === 1) frame = requestAnimationFrame(sample);
+      return () => {
+        if (!subscribers.delete(subscriber)) return;
+        if (subscribers.size === 0) cancelAnimationFrame(frame);
+      };
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      subscribers.clear();
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close().catch(() => {
+        // Already closed.
+      });
+    },
+  };
+}
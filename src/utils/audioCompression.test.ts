@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { compressAnswerAudio, encodeWav } from "./audioCompression";
+
+describe("encodeWav", () => {
+  it("writes 16-bit mono PCM with a RIFF header", async () => {
+    const samples = new Float32Array([0, 1, -1, 2]);
+    const wav = encodeWav({
+      numberOfChannels: 1,
+      sampleRate: 16_000,
+      length: samples.length,
+      getChannelData: () => samples,
+    });
+
+    const view = new DataView(await wav.arrayBuffer());
+    const text = (offset: number) =>
+      String.fromCharCode(
+        ...new Uint8Array(view.buffer.slice(offset, offset + 4))
+      );
+
+    expect(wav.type).toBe("audio/wav");
+    expect(wav.size).toBe(44 + samples.length * 2);
+    expect([text(0), text(8), text(36)]).toEqual(["RIFF", "WAVE", "data"]);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16_000);
+    expect([0, 1, 2, 3].map((i) => view.getInt16(44 + i * 2, true))).toEqual([
+      0, 32767, -32768, 32767,
+    ]);
+  });
+});
+
+describe("compressAnswerAudio", () => {
+  it("keeps the recording when it cannot be decoded", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal(
+      "OfflineAudioContext",
+      class {
+        decodeAudioData() {
+          return Promise.reject(new DOMException("Bad data", "EncodingError"));
+        }
+      }
+    );
+    const recording = new Blob(["answer"], { type: "audio/webm" });
+
+    expect(await compressAnswerAudio(recording, "wav")).toBe(recording);
+    expect(await compressAnswerAudio(recording, "none")).toBe(recording);
+  });
+});
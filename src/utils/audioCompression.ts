@@ -0,0 +1,87 @@
+import type { AudioCompression } from "./audioFormat";
+
+export const SPEECH_SAMPLE_RATE = 16_000;
+
+const WAV_HEADER_BYTES = 44;
+
+type PcmSource = Pick<
+  AudioBuffer,
+  "numberOfChannels" | "sampleRate" | "length" | "getChannelData"
+>;
+
+/** Encodes the first channel of `buffer` as 16-bit PCM WAV. */
+export function encodeWav(buffer: PcmSource): Blob {
+  const samples = buffer.getChannelData(0);
+  const view = new DataView(
+    new ArrayBuffer(WAV_HEADER_BYTES + samples.length * 2)
+  );
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeText(0, "RIFF");
+  view.setUint32(4, view.byteLength - 8, true);
+  writeText(8, "WAVE");
+  writeText(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(
+      WAV_HEADER_BYTES + i * 2,
+      clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff,
+      true
+    );
+  });
+
+  return new Blob([view], { type: "audio/wav" });
+}
+
+/** Decodes a recording and renders it as 16 kHz mono. */
+async function renderSpeechAudio(blob: Blob): Promise<AudioBuffer> {
+  // Decoding resamples to the context's rate; rendering downmixes to mono.
+  const decoder = new OfflineAudioContext(1, 1, SPEECH_SAMPLE_RATE);
+  const decoded = await decoder.decodeAudioData(await blob.arrayBuffer());
+
+  const context = new OfflineAudioContext(
+    1,
+    decoded.length,
+    SPEECH_SAMPLE_RATE
+  );
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+/**
+ * Converts a finished answer for upload. The original recording is kept when
+ * the browser cannot decode it.
+ */
+export async function compressAnswerAudio(
+  blob: Blob,
+  compression: AudioCompression
+): Promise<Blob> {
+  // Opus is applied while recording; see `getRecorderOptions`.
+  if (compression !== "wav" || typeof OfflineAudioContext === "undefined") {
+    return blob;
+  }
+
+  try {
+    return encodeWav(await renderSpeechAudio(blob));
+  } catch (error) {
+    console.warn("Failed to compress answer, uploading original:", error);
+    return blob;
+  }
+}
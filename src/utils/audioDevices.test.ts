@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { installMediaFakes } from "../test/media";
+import {
+  ChosenMicrophoneMissingError,
+  describeMicrophoneError,
+  getPreferredDeviceId,
+  openMicrophone,
+  setPreferredDeviceId,
+} from "./audioDevices";
+
+describe("openMicrophone", () => {
+  let media: ReturnType<typeof installMediaFakes>;
+
+  beforeEach(() => {
+    media = installMediaFakes();
+  });
+
+  it("records from exactly the chosen microphone", async () => {
+    setPreferredDeviceId("audioinput", "usb-mic");
+
+    await openMicrophone({ channelCount: 1 });
+
+    expect(media.getUserMedia).toHaveBeenCalledWith({
+      audio: { deviceId: { exact: "usb-mic" }, channelCount: 1 },
+    });
+  });
+
+  it("forgets a chosen microphone that has been unplugged", async () => {
+    setPreferredDeviceId("audioinput", "usb-mic");
+    media.getUserMedia.mockRejectedValueOnce(
+      new DOMException("No such device", "OverconstrainedError")
+    );
+
+    const error = await openMicrophone().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ChosenMicrophoneMissingError);
+    expect(describeMicrophoneError(error)).toContain("no longer connected");
+    expect(getPreferredDeviceId("audioinput")).toBeNull();
+
+    await openMicrophone();
+    expect(media.getUserMedia).toHaveBeenLastCalledWith({ audio: true });
+  });
+
+  it("passes other failures through unchanged", async () => {
+    const denied = new DOMException("Permission denied", "NotAllowedError");
+    media.getUserMedia.mockRejectedValueOnce(denied);
+
+    await expect(openMicrophone()).rejects.toBe(denied);
+  });
+});
@@ -0,0 +1,123 @@
+const AUDIO_INPUT_KEY = "audioInputDeviceId";
+const AUDIO_OUTPUT_KEY = "audioOutputDeviceId";
+
+export type AudioDeviceKind = "audioinput" | "audiooutput";
+
+const storageKey = (kind: AudioDeviceKind) =>
+  kind === "audioinput" ? AUDIO_INPUT_KEY : AUDIO_OUTPUT_KEY;
+
+export function getPreferredDeviceId(kind: AudioDeviceKind): string | null {
+  try {
+    return localStorage.getItem(storageKey(kind));
+  } catch {
+    return null;
+  }
+}
+
+/** Stores the device to use from now on; null reverts to the system default. */
+export function setPreferredDeviceId(
+  kind: AudioDeviceKind,
+  deviceId: string | null
+): void {
+  try {
+    if (deviceId) {
+      localStorage.setItem(storageKey(kind), deviceId);
+    } else {
+      localStorage.removeItem(storageKey(kind));
+    }
+  } catch (error) {
+    console.error("Failed to persist audio device:", error);
+  }
+}
+
+/** The microphone chosen in the device check is no longer available. */
+export class ChosenMicrophoneMissingError extends Error {
+  constructor(options?: ErrorOptions) {
+    super("The chosen microphone is no longer available", options);
+    this.name = "ChosenMicrophoneMissingError";
+  }
+}
+
+const errorName = (error: unknown) =>
+  error instanceof DOMException || error instanceof Error ? error.name : "";
+
+/**
+ * Audio constraints for the chosen microphone. The id is required so the
+ * browser never records from a different device without saying so.
+ */
+export function getAudioConstraints(): MediaTrackConstraints | true {
+  const deviceId = getPreferredDeviceId("audioinput");
+  return deviceId ? { deviceId: { exact: deviceId } } : true;
+}
+
+/**
+ * `constraints` are added to the chosen device's, e.g. to ask for mono. When
+ * the chosen device has gone, the choice is cleared so the next attempt uses
+ * the default, and a `ChosenMicrophoneMissingError` explains why this one
+ * failed.
+ */
+export async function openMicrophone(
+  constraints?: MediaTrackConstraints
+): Promise<MediaStream> {
+  const device = getAudioConstraints();
+  const audio = constraints
+    ? { ...(device === true ? {} : device), ...constraints }
+    : device;
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio });
+  } catch (error) {
+    const name = errorName(error);
+    if (
+      device !== true &&
+      (name === "OverconstrainedError" || name === "NotFoundError")
+    ) {
+      setPreferredDeviceId("audioinput", null);
+      throw new ChosenMicrophoneMissingError({ cause: error });
+    }
+    throw error;
+  }
+}
+
+export async function listAudioDevices(
+  kind: AudioDeviceKind
+): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === kind);
+}
+
+/** Whether audio elements can be routed to a chosen output device. */
+export const supportsOutputSelection = () =>
+  typeof HTMLMediaElement !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
+
+/** Routes `element` to the preferred speaker, where the browser allows it. */
+export async function applyPreferredOutput(
+  element: HTMLMediaElement
+): Promise<void> {
+  const deviceId = getPreferredDeviceId("audiooutput");
+  if (!deviceId || !supportsOutputSelection()) return;
+  try {
+    await element.setSinkId(deviceId);
+  } catch (error) {
+    console.warn("Failed to select audio output, using default:", error);
+  }
+}
+
+/** Explains a getUserMedia failure in terms the candidate can act on. */
+export function describeMicrophoneError(error: unknown): string {
+  switch (errorName(error)) {
+    case "ChosenMicrophoneMissingError":
+      return "The microphone you chose is no longer connected. Reconnect it and try again, or carry on with the default microphone.";
+    case "NotAllowedError":
+    case "SecurityError":
+      return "Microphone permission was denied. Allow access in your browser's site settings and try again.";
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return "No microphone was found. Connect one and try again.";
+    case "NotReadableError":
+    case "AbortError":
+      return "The microphone is in use by another application. Close it and try again.";
+    default:
+      return "The microphone could not be started.";
+  }
+}
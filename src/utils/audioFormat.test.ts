@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  getAudioFileExtension,
+  getRecorderOptions,
+  pickRecordingMimeType,
+  toRecordingBlob,
+} from "./audioFormat";
+
+function stubSupportedTypes(...supported: string[]) {
+  vi.stubGlobal(
+    "MediaRecorder",
+    class {
+      static isTypeSupported = (type: string) => supported.includes(type);
+    }
+  );
+}
+
+describe("audioFormat", () => {
+  it("prefers Opus and falls back to what the browser supports", () => {
+    stubSupportedTypes("audio/mp4", "audio/webm;codecs=opus");
+    expect(pickRecordingMimeType()).toBe("audio/webm;codecs=opus");
+
+    stubSupportedTypes("audio/mp4");
+    expect(pickRecordingMimeType()).toBe("audio/mp4");
+  });
+
+  it("lets the browser choose when nothing can be probed", () => {
+    vi.stubGlobal("MediaRecorder", class {});
+    expect(getRecorderOptions()).toEqual({});
+  });
+
+  it("lowers the bitrate for Opus compression", () => {
+    stubSupportedTypes("audio/ogg;codecs=opus");
+    expect(getRecorderOptions("opus")).toEqual({
+      mimeType: "audio/ogg;codecs=opus",
+      audioBitsPerSecond: 24_000,
+    });
+  });
+
+  it("labels blobs with the recorded type", () => {
+    expect(toRecordingBlob(["a"], { mimeType: "audio/mp4" }).type).toBe(
+      "audio/mp4"
+    );
+    expect(toRecordingBlob(["a"], { mimeType: "" }).type).toBe("audio/webm");
+  });
+
+  it("maps recorded types to file extensions", () => {
+    expect(getAudioFileExtension("audio/webm;codecs=opus")).toBe("webm");
+    expect(getAudioFileExtension("audio/mp4; codecs=mp4a.40.2")).toBe("m4a");
+    expect(getAudioFileExtension("audio/wav")).toBe("wav");
+    expect(getAudioFileExtension("audio/flac")).toBe("flac");
+    expect(getAudioFileExtension("")).toBe("webm");
+  });
+});
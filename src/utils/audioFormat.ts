@@ -0,0 +1,83 @@
+/**
+ * How answers are shrunk before upload:
+ * - `none` keeps whatever the browser records.
+ * - `opus` records low-bitrate mono Opus, so streamed chunks are small too.
+ * - `wav` converts the finished recording to 16 kHz mono PCM.
+ */
+export const AUDIO_COMPRESSIONS = ["none", "opus", "wav"] as const;
+
+export type AudioCompression = (typeof AUDIO_COMPRESSIONS)[number];
+
+/** Recording formats, best first. Opus is the smallest for speech. */
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/mp4;codecs=opus",
+  "audio/mp4;codecs=mp4a.40.2",
+  "audio/webm",
+  "audio/ogg",
+  "audio/mp4",
+];
+
+/** Speech stays intelligible at this rate, where Opus encodes wideband. */
+const OPUS_SPEECH_BITS_PER_SECOND = 24_000;
+
+const FALLBACK_MIME_TYPE = "audio/webm";
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
+
+/** The first supported recording format, or undefined to let the browser choose. */
+export function pickRecordingMimeType(
+  candidates: readonly string[] = RECORDING_MIME_TYPES
+): string | undefined {
+  if (
+    typeof MediaRecorder === "undefined" ||
+    typeof MediaRecorder.isTypeSupported !== "function"
+  ) {
+    return undefined;
+  }
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function getRecorderOptions(
+  compression: AudioCompression = "none"
+): MediaRecorderOptions {
+  const options: MediaRecorderOptions = {};
+  const mimeType = pickRecordingMimeType();
+  if (mimeType) options.mimeType = mimeType;
+  if (compression === "opus") {
+    options.audioBitsPerSecond = OPUS_SPEECH_BITS_PER_SECOND;
+  }
+  return options;
+}
+
+/** Extra microphone constraints asking the browser to capture 16 kHz mono. */
+export function getCaptureConstraints(
+  compression: AudioCompression = "none"
+): MediaTrackConstraints | undefined {
+  return compression === "opus"
+    ? { channelCount: { ideal: 1 }, sampleRate: { ideal: 16_000 } }
+    : undefined;
+}
+
+/** Joins recorded chunks, labelled with what the recorder actually produced. */
+export function toRecordingBlob(
+  chunks: BlobPart[],
+  recorder: Pick<MediaRecorder, "mimeType">
+): Blob {
+  return new Blob(chunks, { type: recorder.mimeType || FALLBACK_MIME_TYPE });
+}
+
+export function getAudioFileExtension(mimeType: string): string {
+  const baseType = mimeType.split(";")[0].trim().toLowerCase();
+  return (
+    FILE_EXTENSIONS[baseType] ??
+    (/^audio\/([a-z0-9]+)$/.exec(baseType)?.[1] || "webm")
+  );
+}
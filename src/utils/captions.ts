@@ -0,0 +1,74 @@
+import { z } from "zod";
+import type { WordTiming } from "../api/interviewApi";
+
+const CAPTION_SETTINGS_KEY = "captionSettings";
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5] as const;
+
+/** "full" shows the question at once, "live" reveals it as it is spoken. */
+export const CAPTION_MODES = ["full", "live", "hidden"] as const;
+export type CaptionMode = (typeof CAPTION_MODES)[number];
+
+const captionSettingsSchema = z.object({
+  mode: z.enum(CAPTION_MODES).catch("full"),
+  playbackRate: z
+    .number()
+    .refine((rate) => (PLAYBACK_RATES as readonly number[]).includes(rate))
+    .catch(1),
+});
+
+export type CaptionSettings = z.output<typeof captionSettingsSchema>;
+
+export function loadCaptionSettings(): CaptionSettings {
+  try {
+    return captionSettingsSchema.parse(
+      JSON.parse(localStorage.getItem(CAPTION_SETTINGS_KEY) ?? "{}")
+    );
+  } catch {
+    return captionSettingsSchema.parse({});
+  }
+}
+
+export function saveCaptionSettings(settings: CaptionSettings): void {
+  try {
+    localStorage.setItem(CAPTION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to persist caption settings:", error);
+  }
+}
+
+/** Extra weight, in characters, for the pause after punctuation. */
+const PAUSE_WEIGHT = { comma: 3, stop: 6 };
+
+/**
+ * Spreads the words of `text` over `durationSeconds` in proportion to their
+ * length, with a little extra time after punctuation. Used when the TTS
+ * backend does not return word timings.
+ */
+export function estimateWordTimings(
+  text: string,
+  durationSeconds: number
+): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const weights = words.map((word) => {
+    let weight = word.length + 1;
+    if (/[,;:]$/.test(word)) weight += PAUSE_WEIGHT.comma;
+    if (/[.?!]$/.test(word)) weight += PAUSE_WEIGHT.stop;
+    return weight;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let elapsed = 0;
+  return words.map((word, i) => {
+    const start = (elapsed / total) * durationSeconds;
+    elapsed += weights[i];
+    return { word, start, end: (elapsed / total) * durationSeconds };
+  });
+}
+
+/** Number of words in `timings` that have started by `time`. */
+export function countSpokenWords(timings: WordTiming[], time: number): number {
+  let count = 0;
+  while (count < timings.length && timings[count].start <= time) count++;
+  return count;
+}
@@ -0,0 +1,13 @@
+export function getQueryParam(name: string): string | null {
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+export function setQueryParam(name: string, value: string | null): void {
+  const url = new URL(window.location.href);
+  if (value === null) {
+    url.searchParams.delete(name);
+  } else {
+    url.searchParams.set(name, value);
+  }
+  window.history.replaceState(window.history.state, "", url);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { SCORE_TIERS, getCompletionPercent, getScoreTier } from "./scoreTiers";
+
+describe("getScoreTier", () => {
+  it("picks the highest tier whose threshold the score reaches", () => {
+    expect(getScoreTier(100).label).toBe("Excellent");
+    expect(getScoreTier(90).label).toBe("Excellent");
+    expect(getScoreTier(89.9).label).toBe("Strong");
+    expect(getScoreTier(60).label).toBe("Solid");
+    expect(getScoreTier(0).label).toBe("Needs Work");
+  });
+
+  it("falls back to the lowest tier for out-of-range scores", () => {
+    expect(getScoreTier(-5)).toBe(SCORE_TIERS[SCORE_TIERS.length - 1]);
+  });
+
+  it("keeps the tiers ordered from the highest threshold down", () => {
+    const thresholds = SCORE_TIERS.map((tier) => tier.min);
+    expect(thresholds).toEqual([...thresholds].sort((a, b) => b - a));
+    expect(thresholds.at(-1)).toBe(0);
+  });
+});
+
+describe("getCompletionPercent", () => {
+  it("compares answered questions with the session's total", () => {
+    expect(getCompletionPercent(3, 5)).toBe(60);
+    expect(getCompletionPercent(5, 5)).toBe(100);
+    expect(getCompletionPercent(6, 5)).toBe(100);
+  });
+
+  it("is unknown without a total", () => {
+    expect(getCompletionPercent(3, undefined)).toBeNull();
+    expect(getCompletionPercent(3, 0)).toBeNull();
+  });
+});
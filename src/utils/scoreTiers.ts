@@ -0,0 +1,34 @@
+export interface ScoreTier {
+  /** Lowest `performance_score` (0-100) that earns this tier. */
+  min: number;
+  label: string;
+  color: string;
+}
+
+/** Ordered from the highest threshold down; the last tier must start at 0. */
+export const SCORE_TIERS: readonly ScoreTier[] = [
+  { min: 90, label: "Excellent", color: "#10b981" },
+  { min: 75, label: "Strong", color: "#2dd4bf" },
+  { min: 60, label: "Solid", color: "#818cf8" },
+  { min: 40, label: "Developing", color: "#f59e0b" },
+  { min: 0, label: "Needs Work", color: "#f43f5e" },
+];
+
+export function getScoreTier(score: number): ScoreTier {
+  return (
+    SCORE_TIERS.find((tier) => score >= tier.min) ??
+    SCORE_TIERS[SCORE_TIERS.length - 1]
+  );
+}
+
+/**
+ * Share of the session's questions that were answered, as a whole percentage,
+ * or null when the number of questions is not known.
+ */
+export function getCompletionPercent(
+  questionsAnswered: number,
+  totalQuestions: number | undefined
+): number | null {
+  if (!totalQuestions) return null;
+  return Math.round(Math.min(1, questionsAnswered / totalQuestions) * 100);
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+const SESSION_HISTORY_KEY = "interviewSessionHistory";
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Seconds from each question being asked to its answer being submitted, keyed
+ * by question index.
+ */
+export const answerTimesSchema = z.record(z.string(), z.number().min(0));
+
+export type AnswerTimes = z.output<typeof answerTimesSchema>;
+
+const sessionHistoryEntrySchema = z.object({
+  sessionId: z.string().min(1),
+  weekNumber: z.number(),
+  weekTitle: z.string(),
+  completedAt: z.string(),
+  performanceScore: z.number(),
+  averageScore: z.number(),
+  questionsAnswered: z.number(),
+  totalQuestions: z.number().int().min(0).optional(),
+  durationSeconds: z.number(),
+  answerTimes: answerTimesSchema.default({}),
+});
+
+export type SessionHistoryEntry = z.output<typeof sessionHistoryEntrySchema>;
+
+/**
+ * Completed sessions recorded in this browser, newest first. Entries that no
+ * longer match the schema are dropped rather than failing the whole list.
+ */
+export function loadSessionHistory(): SessionHistoryEntry[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SESSION_HISTORY_KEY) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .map((entry) => sessionHistoryEntrySchema.safeParse(entry))
+      .filter((result) => result.success)
+      .map((result) => result.data)
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+  } catch {
+    return [];
+  }
+}
+
+export function addSessionHistoryEntry(entry: SessionHistoryEntry): void {
+  const history = loadSessionHistory().filter(
+    (existing) => existing.sessionId !== entry.sessionId
+  );
+  try {
+    localStorage.setItem(
+      SESSION_HISTORY_KEY,
+      JSON.stringify([entry, ...history].slice(0, MAX_HISTORY_ENTRIES))
+    );
+  } catch (error) {
+    console.error("Failed to save session history:", error);
+  }
+}
+
+export function clearSessionHistory(): void {
+  try {
+    localStorage.removeItem(SESSION_HISTORY_KEY);
+  } catch {
+    // Storage unavailable; nothing to clear.
+  }
+}
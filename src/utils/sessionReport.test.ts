@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { SessionResultsResponse } from "../api/interviewApi";
+import { buildSessionReport } from "./sessionReport";
+
+const results: SessionResultsResponse = {
+  performance_score: 80,
+  mentor_feedback: "Good work.",
+  time_elapsed_sec: 125,
+  time_elapsed_formatted: "2m 5s",
+  skill_breakdown: { Closures: 90 },
+  questions_answered: 1,
+  average_score: 8,
+};
+
+describe("buildSessionReport", () => {
+  it("combines the results with each answer's feedback", () => {
+    const report = buildSessionReport({
+      sessionId: "abc123",
+      week: { number: 4, title: "Closures" },
+      results,
+      logs: [
+        {
+          questionIndex: 0,
+          question: "What is a closure?",
+          transcript: "A function with its scope.",
+          score: 8,
+          feedback: {
+            score: 8,
+            missed_points: ["a use case"],
+            red_flags: [],
+            summary: "Clear.",
+          },
+          createdAt: "2026-01-01T10:00:00.000Z",
+        },
+      ],
+      answerTimes: { 0: 42.5 },
+      exportedAt: new Date("2026-01-01T10:05:00.000Z"),
+    });
+
+    expect(report).toEqual({
+      format: "virtual-reviewer.session-report",
+      version: 2,
+      exported_at: "2026-01-01T10:05:00.000Z",
+      session_id: "abc123",
+      week: { number: 4, title: "Closures" },
+      results,
+      answers: [
+        {
+          question_index: 0,
+          question: "What is a closure?",
+          transcript: "A function with its scope.",
+          score: 8,
+          summary: "Clear.",
+          missed_points: ["a use case"],
+          red_flags: [],
+          answered_at: "2026-01-01T10:00:00.000Z",
+          time_spent_seconds: 42.5,
+        },
+      ],
+    });
+  });
+
+  it("marks answers as missing when the logs could not be loaded", () => {
+    const report = buildSessionReport({
+      sessionId: "abc123",
+      week: null,
+      results,
+      logs: null,
+    });
+
+    expect(report.answers).toBeNull();
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
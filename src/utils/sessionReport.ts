@@ -0,0 +1,92 @@
+import type {
+  SessionLogEntry,
+  SessionResultsResponse,
+} from "../api/interviewApi";
+import type { AnswerTimes } from "./sessionHistory";
+
+export const SESSION_REPORT_FORMAT = "virtual-reviewer.session-report";
+export const SESSION_REPORT_VERSION = 2;
+
+export interface SessionReportWeek {
+  number: number;
+  title: string;
+}
+
+/**
+ * Machine-readable export of a finished session. Field names follow the API's
+ * snake_case so dashboards can treat it like any other backend payload; bump
+ * `version` whenever the shape changes.
+ */
+export interface SessionReport {
+  format: typeof SESSION_REPORT_FORMAT;
+  version: typeof SESSION_REPORT_VERSION;
+  exported_at: string;
+  session_id: string;
+  week: SessionReportWeek | null;
+  results: SessionResultsResponse;
+  /** Null when the per-question logs could not be loaded. */
+  answers:
+    | {
+        question_index: number;
+        question: string;
+        transcript: string;
+        score: number;
+        summary: string;
+        missed_points: string[];
+        red_flags: string[];
+        answered_at: string | null;
+        /** Null when the answer was not given in this browser. */
+        time_spent_seconds: number | null;
+      }[]
+    | null;
+}
+
+export function buildSessionReport({
+  sessionId,
+  week,
+  results,
+  logs,
+  answerTimes = {},
+  exportedAt = new Date(),
+}: {
+  sessionId: string;
+  week: SessionReportWeek | null;
+  results: SessionResultsResponse;
+  logs: SessionLogEntry[] | null;
+  answerTimes?: AnswerTimes;
+  exportedAt?: Date;
+}): SessionReport {
+  return {
+    format: SESSION_REPORT_FORMAT,
+    version: SESSION_REPORT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    session_id: sessionId,
+    week,
+    results,
+    answers:
+      logs?.map((entry) => ({
+        question_index: entry.questionIndex,
+        question: entry.question,
+        transcript: entry.transcript,
+        score: entry.score,
+        summary: entry.feedback.summary,
+        missed_points: entry.feedback.missed_points,
+        red_flags: entry.feedback.red_flags,
+        answered_at: entry.createdAt,
+        time_spent_seconds: answerTimes[entry.questionIndex] ?? null,
+      })) ?? null,
+  };
+}
+
+export function downloadSessionReport(report: SessionReport): void {
+  const blob = new Blob([JSON.stringify(report, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `session-${report.session_id}-report.json`;
+  link.click();
+  // Revoking right away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url));
+}
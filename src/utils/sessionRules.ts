@@ -0,0 +1,45 @@
+import { getQueryParam } from "./queryParams";
+
+/**
+ * Limits a mentor sets for an interview. Defaults come from the build env and
+ * can be overridden per link, e.g. `/?week=4&rerecords=1&thinking=30`.
+ */
+export interface SessionRules {
+  /** Re-records allowed across the whole session when reviewing answers. */
+  maxRerecords: number;
+  /** Seconds to think before recording starts on its own; 0 for no limit. */
+  thinkingTimeSeconds: number;
+  /** Seconds after which an answer is stopped and submitted; 0 for no limit. */
+  maxAnswerSeconds: number;
+}
+
+export const RERECORDS_QUERY_PARAM = "rerecords";
+export const THINKING_TIME_QUERY_PARAM = "thinking";
+export const MAX_ANSWER_QUERY_PARAM = "maxAnswer";
+
+const FALLBACK_MAX_RERECORDS = 2;
+
+function parseCount(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === "") {
+    return null;
+  }
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+export function getSessionRules(): SessionRules {
+  return {
+    maxRerecords:
+      parseCount(getQueryParam(RERECORDS_QUERY_PARAM)) ??
+      parseCount(import.meta.env.VITE_MAX_RERECORDS) ??
+      FALLBACK_MAX_RERECORDS,
+    thinkingTimeSeconds:
+      parseCount(getQueryParam(THINKING_TIME_QUERY_PARAM)) ??
+      parseCount(import.meta.env.VITE_THINKING_TIME_SECONDS) ??
+      0,
+    maxAnswerSeconds:
+      parseCount(getQueryParam(MAX_ANSWER_QUERY_PARAM)) ??
+      parseCount(import.meta.env.VITE_MAX_ANSWER_SECONDS) ??
+      0,
+  };
+}
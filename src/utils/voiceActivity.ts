@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+const VOICE_ACTIVITY_KEY = "voiceActivitySettings";
+
+export const SILENCE_THRESHOLD_RANGE = { min: 0.005, max: 0.1 } as const;
+export const HANG_TIME_RANGE_MS = { min: 1000, max: 8000 } as const;
+
+const voiceActivitySettingsSchema = z.object({
+  /** RMS level below which input counts as silence. */
+  silenceThreshold: z
+    .number()
+    .min(SILENCE_THRESHOLD_RANGE.min)
+    .max(SILENCE_THRESHOLD_RANGE.max)
+    .catch(0.02),
+  /** How long silence must last after speech before the answer is submitted. */
+  hangTimeMs: z
+    .number()
+    .min(HANG_TIME_RANGE_MS.min)
+    .max(HANG_TIME_RANGE_MS.max)
+    .catch(3000),
+});
+
+export type VoiceActivitySettings = z.output<
+  typeof voiceActivitySettingsSchema
+>;
+
+export const DEFAULT_VOICE_ACTIVITY_SETTINGS: VoiceActivitySettings =
+  voiceActivitySettingsSchema.parse({});
+
+export function loadVoiceActivitySettings(): VoiceActivitySettings {
+  try {
+    const raw = localStorage.getItem(VOICE_ACTIVITY_KEY);
+    if (!raw) return DEFAULT_VOICE_ACTIVITY_SETTINGS;
+    return voiceActivitySettingsSchema.parse(JSON.parse(raw));
+  } catch {
+    return DEFAULT_VOICE_ACTIVITY_SETTINGS;
+  }
+}
+
+export function saveVoiceActivitySettings(
+  settings: VoiceActivitySettings
+): void {
+  try {
+    localStorage.setItem(VOICE_ACTIVITY_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to persist voice activity settings:", error);
+  }
+}
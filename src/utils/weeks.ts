@@ -0,0 +1,11 @@
+export const AVAILABLE_WEEKS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+export const DEFAULT_WEEK = 4;
+
+export const WEEK_QUERY_PARAM = "week";
+
+export function parseWeekNumber(value: string | null): number | null {
+  if (value === null) return null;
+  const week = Number(value);
+  return AVAILABLE_WEEKS.includes(week) ? week : null;
+}
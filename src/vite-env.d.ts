@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_STAGING_URL?: string;
+  readonly VITE_API_LOCAL_URL?: string;
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_STREAM_ANSWERS?: string;
+  readonly VITE_AUDIO_COMPRESSION?: string;
+  readonly VITE_MAX_RERECORDS?: string;
+  readonly VITE_THINKING_TIME_SECONDS?: string;
+  readonly VITE_MAX_ANSWER_SECONDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}